@@ -0,0 +1,25 @@
+import { RetryPolicy } from './retryPolicy';
+
+/** Per-call options for a rate-limited function */
+export interface CallOptions {
+  /**
+   * aborting this signal removes a queued call from the queue and rejects it with
+   * RateLimitAbortError; if the call is already running, the signal is passed to it
+   */
+  signal?: AbortSignal;
+  /**
+   * calls with a higher priority leave the queue first; either a number or the name of
+   * a priority lane (default: 0, the `normal` lane)
+   */
+  priority?: number | string;
+  /**
+   * how many units of the rate quota this call uses (and of the concurrency quota, if
+   * `weightedConcurrency` is set); calls that cost more than the quota itself are
+   * rejected with a RangeError (default: 1)
+   */
+  cost?: number;
+  /** retry policy for this call, overriding the rate limiter’s (false: never retry) */
+  retry?: RetryPolicy | false;
+  /** the maximum time this call may run, overriding the rate limiter’s `timeout` */
+  timeout?: number;
+}
@@ -0,0 +1,22 @@
+/**
+ * Where the rate limiters and quota managers get the time and set their timers. Timer
+ * handles are passed back to clearTimeout()/clearInterval(); if they have an `unref()`
+ * method, it is called for timers that shouldn’t keep Node running.
+ */
+export interface Clock {
+  /** The current time, in milliseconds since the epoch */
+  now(): number;
+  setTimeout(fn: () => void, delay: number): any;
+  clearTimeout(timer: any): void;
+  setInterval(fn: () => void, interval: number): any;
+  clearInterval(timer: any): void;
+}
+
+/** The real time, and Node’s timers */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, delay) => setTimeout(fn, delay),
+  clearTimeout: timer => clearTimeout(timer),
+  setInterval: (fn, interval) => setInterval(fn, interval),
+  clearInterval: timer => clearInterval(timer)
+};
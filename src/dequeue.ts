@@ -41,7 +41,9 @@ export class Dequeue<T> {
     const result = this.tail;
     this.tail = this.tail.prev;
     this._length--;
-    if (!this._length) {
+    if (this._length) {
+      this.tail.next = undefined;
+    } else {
       this.head = this.tail = undefined;
     }
     return result.value;
@@ -71,12 +73,47 @@ export class Dequeue<T> {
     const result = this.head;
     this.head = this.head.next;
     this._length--;
-    if (!this._length) {
+    if (this._length) {
+      this.head.prev = undefined;
+    } else {
       this.head = this.tail = undefined;
     }
     return result.value;
   }
 
+  /**
+   * Remove the first node holding `value`.
+   * @returns true if a node was found and removed
+   */
+  remove(value: T): boolean {
+    for (let node = this.head; node; node = node.next) {
+      if (node.value !== value) {
+        continue;
+      }
+
+      if (node.prev) {
+        node.prev.next = node.next;
+      } else {
+        this.head = node.next;
+      }
+      if (node.next) {
+        node.next.prev = node.prev;
+      } else {
+        this.tail = node.prev;
+      }
+      this._length--;
+      return true;
+    }
+    return false;
+  }
+
+  /** Iterate from front to back */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (let node = this.head; node; node = node.next) {
+      yield node.value;
+    }
+  }
+
   peekFront(): T {
     if (this._length) {
       return this.head.value;
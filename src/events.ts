@@ -0,0 +1,79 @@
+import { Quota } from './quota/quota';
+
+/** Emitted by a rate limiter when a call is added to the queue */
+export interface EnqueuedEvent {
+  /** identifies the call in later events */
+  id: number;
+  cost: number;
+  priority: number;
+  /** the queue length, including this call */
+  queued: number;
+}
+
+/** Emitted by a rate limiter when a queued call starts running */
+export interface StartedEvent {
+  id: number;
+  cost: number;
+  /** how long the call waited in the queue, in milliseconds */
+  waitTime: number;
+}
+
+/** Emitted by a rate limiter when a call that was started has settled */
+export interface SettledEvent {
+  id: number;
+  cost: number;
+  waitTime: number;
+  /** how long the call ran, in milliseconds */
+  duration: number;
+  outcome: 'fulfilled' | 'rejected';
+  /** the rejection reason, if the call was rejected */
+  error?: any;
+}
+
+/**
+ * Emitted by a rate limiter when a call threw ThrottledError; the call is then put back
+ * at the front of the queue
+ */
+export interface ThrottledEvent {
+  id: number;
+  cost: number;
+  /** how long all calls are paused, in milliseconds */
+  retryAfter: number;
+}
+
+/** Emitted by a rate limiter when a call that rejected will be retried */
+export interface RetryingEvent {
+  id: number;
+  cost: number;
+  /** the attempt that failed (1 for the first) */
+  attempt: number;
+  /** milliseconds until the call is put back at the front of the queue */
+  delay: number;
+  error: any;
+}
+
+/**
+ * Emitted by a rate limiter when a queued call leaves the queue without running:
+ * `timed-out` for RateLimitTimeoutError (maxDelay), `cancelled` for any other reason
+ */
+export interface CancelledEvent {
+  id: number;
+  cost: number;
+  waitTime: number;
+  error: Error;
+}
+
+/** Emitted by a QuotaManager (and its rate limiters) when the quota is changed */
+export interface QuotaChangedEvent {
+  previous: Quota;
+  quota: Quota;
+}
+
+/**
+ * Emitted by a DistributedQuotaManager (e.g. a RedisQuotaManager) when its transport
+ * loses or regains its connection
+ */
+export interface ConnectionStateEvent {
+  previous: 'connected' | 'disconnected';
+  state: 'connected' | 'disconnected';
+}
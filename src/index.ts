@@ -1,5 +1,51 @@
 export { pRateLimit } from './rateLimit';
-export { Quota } from './quota/quota';
-export { QuotaManager } from './quota/quotaManager';
-export { RedisQuotaManager } from './quota/redisQuotaManager';
+export { CallOptions } from './callOptions';
+export { Clock, systemClock } from './clock';
+export {
+  CancelledEvent,
+  ConnectionStateEvent,
+  EnqueuedEvent,
+  QuotaChangedEvent,
+  RetryingEvent,
+  SettledEvent,
+  StartedEvent,
+  ThrottledEvent
+} from './events';
+export { pRateLimitKeyed } from './keyedRateLimit';
+export {
+  KeyedRateLimiter,
+  KeyedRateLimitOptions,
+  KeyStats,
+  QuotaResolver
+} from './keyedRateLimiter';
+export { ExecutionTimeoutError } from './executionTimeoutError';
+export { MetricsOptions, RateLimitMetrics } from './metrics';
+export { QueueClearedError } from './queueClearedError';
+export { QueueFullError } from './queueFullError';
+export { AdaptiveRate, Quota, QuotaWindow } from './quota/quota';
+export {
+  DistributedQuotaManager,
+  DistributedQuotaOptions
+} from './quota/distributedQuotaManager';
+export { FileQuotaStore } from './quota/fileQuotaStore';
+export { InMemoryTransport } from './quota/inMemoryTransport';
+export { PeerTransport } from './quota/peerTransport';
+export { QuotaChannel } from './quota/quotaChannel';
+export { QuotaManager, QuotaManagerOptions } from './quota/quotaManager';
+export { QuotaServer } from './quota/quotaServer';
+export { QuotaSnapshot, QuotaStore, WindowSnapshot } from './quota/quotaStore';
+export { RemoteQuotaManager, RemoteQuotaOptions } from './quota/remoteQuotaManager';
+export { RedisQuotaManager, RedisQuotaOptions } from './quota/redisQuotaManager';
+export { RedisCompatibleClient, RedisTransport } from './quota/redisTransport';
+export { ShareRequest } from './quota/shares';
+export {
+  StrictRedisQuotaManager,
+  StrictRedisQuotaOptions
+} from './quota/strictRedisQuotaManager';
+export { RateLimitAbortError } from './rateLimitAbortError';
+export { RateLimiter } from './rateLimiter';
+export { RateLimitOptions } from './rateLimitOptions';
 export { RateLimitTimeoutError } from './rateLimitTimeoutError';
+export { RetryPolicy } from './retryPolicy';
+export { ThrottledError } from './throttledError';
+export { VirtualClock } from './virtualClock';
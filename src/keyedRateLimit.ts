@@ -0,0 +1,119 @@
+import { CallOptions } from './callOptions';
+import {
+  KeyedRateLimitOptions,
+  KeyedRateLimiter,
+  QuotaResolver
+} from './keyedRateLimiter';
+import { Quota } from './quota/quota';
+import { QuotaManager } from './quota/quotaManager';
+import { createRateLimiter, DisposableRateLimiter } from './rateLimit';
+import { RateLimiter } from './rateLimiter';
+import { systemClock } from './clock';
+import { unref } from './util';
+
+/**
+ * Create a rate limiter with a separate quota for each key (e.g. one per customer). The
+ * rate limiter for a key is created on first use, and evicted once it’s idle.
+ * @param quota the quota for every key, or a function that returns a key’s quota
+ */
+export function pRateLimitKeyed(
+  quota: Quota | QuotaResolver,
+  options: KeyedRateLimitOptions = {}
+): KeyedRateLimiter {
+  const resolve: QuotaResolver =
+    typeof quota === 'function' ? quota : () => Object.assign({}, quota);
+  const { maxKeys = Infinity, evictionInterval = 60000 } = options;
+  const clock = options.clock || systemClock;
+
+  /** rate limiters by key, least-recently used first */
+  const limiters = new Map<string, DisposableRateLimiter>();
+  let timerId: any = null;
+
+  const isIdle = (limiter: RateLimiter) =>
+    !limiter.queued && !limiter.active && limiter.quotaManager.isIdle;
+
+  /** Forget a key, detaching its rate limiter from a QuotaManager that may live on */
+  const evict = (key: string) => {
+    limiters.get(key).dispose();
+    limiters.delete(key);
+  };
+
+  const evictIdle = () => {
+    limiters.forEach(({ limiter }, key) => {
+      if (isIdle(limiter)) {
+        evict(key);
+      }
+    });
+    if (!limiters.size && timerId) {
+      clock.clearInterval(timerId);
+      timerId = null;
+    }
+  };
+
+  /** Evict least-recently used idle keys (other than `current`) to stay within maxKeys */
+  const enforceMaxKeys = (current: string) => {
+    for (const [key, { limiter }] of limiters) {
+      if (limiters.size <= maxKeys) {
+        break;
+      }
+      if (key !== current && isIdle(limiter)) {
+        evict(key);
+      }
+    }
+  };
+
+  const getLimiter = (key: string) => {
+    let entry = limiters.get(key);
+    if (entry) {
+      // move to the most-recently used end
+      limiters.delete(key);
+    } else {
+      const resolved = resolve(key);
+      const quotaManager =
+        resolved instanceof QuotaManager
+          ? resolved
+          : new QuotaManager(resolved, { clock: options.clock });
+      entry = createRateLimiter(quotaManager, options);
+    }
+    limiters.set(key, entry);
+    enforceMaxKeys(key);
+
+    if (!timerId) {
+      timerId = unref(clock.setInterval(evictIdle, evictionInterval));
+    }
+    return entry.limiter;
+  };
+
+  const limit = <T>(
+    key: string,
+    fn: (signal?: AbortSignal) => Promise<T>,
+    callOptions?: CallOptions
+  ) => getLimiter(key)(fn, callOptions);
+
+  return Object.defineProperties(
+    Object.assign(limit, {
+      keys() {
+        return [...limiters.keys()];
+      },
+
+      stats(key: string) {
+        const entry = limiters.get(key);
+        if (!entry) {
+          return undefined;
+        }
+        const { limiter } = entry;
+        return {
+          queued: limiter.queued,
+          active: limiter.active,
+          quota: limiter.quotaManager.quota,
+          idle: isIdle(limiter)
+        };
+      },
+
+      evictIdle
+    }),
+    {
+      size: { get: () => limiters.size }
+    }
+  ) as KeyedRateLimiter;
+}
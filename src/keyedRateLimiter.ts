@@ -0,0 +1,49 @@
+import { CallOptions } from './callOptions';
+import { Quota } from './quota/quota';
+import { QuotaManager } from './quota/quotaManager';
+import { RateLimitOptions } from './rateLimitOptions';
+
+/** Options for a keyed rate limiter created by pRateLimitKeyed */
+export interface KeyedRateLimitOptions extends RateLimitOptions {
+  /**
+   * the maximum number of keys to keep; beyond this, the least-recently used idle keys
+   * are evicted (default: no limit)
+   */
+  maxKeys?: number;
+  /** how often idle keys are evicted, in milliseconds (default: 60000) */
+  evictionInterval?: number;
+}
+
+/** The state of one key of a keyed rate limiter */
+export interface KeyStats {
+  /** the number of calls waiting in the key’s queue */
+  queued: number;
+  /** the number of the key’s calls that are running */
+  active: number;
+  /** the key’s quota */
+  quota: Quota;
+  /** true if the key could be evicted */
+  idle: boolean;
+}
+
+/** A keyed rate-limited function, as returned by pRateLimitKeyed */
+export interface KeyedRateLimiter {
+  /** Call `fn` once the quota for `key` allows it */
+  <T>(
+    key: string,
+    fn: (signal?: AbortSignal) => Promise<T>,
+    options?: CallOptions
+  ): Promise<T>;
+
+  /** The number of keys currently tracked */
+  readonly size: number;
+  /** The keys currently tracked, least-recently used first */
+  keys(): string[];
+  /** The state of a key, or undefined if it’s not tracked (or was evicted) */
+  stats(key: string): KeyStats;
+  /** Evict all idle keys now */
+  evictIdle(): void;
+}
+
+/** Resolves the quota (or QuotaManager) to use for a key */
+export type QuotaResolver = (key: string) => Quota | QuotaManager;
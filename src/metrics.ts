@@ -0,0 +1,258 @@
+import { CancelledEvent, SettledEvent, StartedEvent } from './events';
+import { QuotaManager } from './quota/quotaManager';
+import { DistributedQuotaManager } from './quota/distributedQuotaManager';
+import { RateLimiter } from './rateLimiter';
+
+/** Options for RateLimitMetrics */
+export interface MetricsOptions {
+  /** prefix for all metric names (default: `p_ratelimit`) */
+  prefix?: string;
+  /** histogram bucket upper bounds, in seconds (default: the Prometheus defaults) */
+  buckets?: number[];
+}
+
+interface Labels {
+  [name: string]: string;
+}
+
+interface Histogram {
+  /** cumulative count for each bucket */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/** The metrics collected for one attached rate limiter or QuotaManager */
+interface Series {
+  target: RateLimiter | QuotaManager;
+  /** the rate limiter, if the target is one */
+  limiter: RateLimiter;
+  quotaManager: QuotaManager;
+  labels: Labels;
+  admitted: number;
+  rejected: number;
+  timedOut: number;
+  waitTime: Histogram;
+  runTime: Histogram;
+  /** the listeners added to the rate limiter, to be removed on detach() */
+  listeners: [string, (...args: any[]) => void][];
+}
+
+interface MetricDefinition {
+  name: string;
+  type: 'gauge' | 'counter' | 'histogram';
+  help: string;
+  /** the series’ value, or undefined if the metric doesn’t apply to it */
+  value: (s: Series) => number | Histogram;
+}
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRICS: MetricDefinition[] = [
+  {
+    name: 'queued',
+    type: 'gauge',
+    help: 'Calls waiting in the queue.',
+    value: s => s.limiter && s.limiter.queued
+  },
+  {
+    name: 'active',
+    type: 'gauge',
+    help: 'Calls running (their total cost, if concurrency is weighted).',
+    value: s => s.quotaManager.activeCount
+  },
+  {
+    name: 'admitted_total',
+    type: 'counter',
+    help: 'Calls that were started.',
+    value: s => s.limiter && s.admitted
+  },
+  {
+    name: 'rejected_total',
+    type: 'counter',
+    help: 'Calls that left the queue without running, other than timeouts.',
+    value: s => s.limiter && s.rejected
+  },
+  {
+    name: 'timed_out_total',
+    type: 'counter',
+    help: 'Calls that waited longer than maxDelay.',
+    value: s => s.limiter && s.timedOut
+  },
+  {
+    name: 'wait_seconds',
+    type: 'histogram',
+    help: 'Time calls spent in the queue.',
+    value: s => s.limiter && s.waitTime
+  },
+  {
+    name: 'run_seconds',
+    type: 'histogram',
+    help: 'Time calls spent running.',
+    value: s => s.limiter && s.runTime
+  },
+  {
+    name: 'quota_rate',
+    type: 'gauge',
+    help: 'Calls allowed per interval by the current quota.',
+    value: s => s.quotaManager.quota.rate
+  },
+  {
+    name: 'quota_interval_seconds',
+    type: 'gauge',
+    help: 'Interval of the current rate quota.',
+    value: s => s.quotaManager.quota.interval / 1000
+  },
+  {
+    name: 'quota_concurrency',
+    type: 'gauge',
+    help: 'Concurrent calls allowed by the current quota.',
+    value: s => s.quotaManager.quota.concurrency
+  },
+  {
+    name: 'rate_scale',
+    type: 'gauge',
+    help: 'Fraction of the rate quota allowed while backing off after throttling.',
+    value: s => s.quotaManager.rateScale
+  },
+  {
+    name: 'peers',
+    type: 'gauge',
+    help: 'Servers sharing the quota, including this one.',
+    value: s =>
+      s.quotaManager instanceof DistributedQuotaManager
+        ? s.quotaManager.peerCount
+        : undefined
+  }
+];
+
+/**
+ * Collects metrics from rate limiters and quota managers, and renders them in the
+ * Prometheus text exposition format.
+ */
+export class RateLimitMetrics {
+  private readonly prefix: string;
+  private readonly buckets: number[];
+  private series: Series[] = [];
+
+  constructor(options: MetricsOptions = {}) {
+    this.prefix = options.prefix || 'p_ratelimit';
+    this.buckets = (options.buckets || DEFAULT_BUCKETS).slice().sort((a, b) => a - b);
+  }
+
+  /**
+   * Start collecting metrics.
+   * @param target a rate limiter, or a QuotaManager (quota and active count only)
+   * @param labels labels that identify the target’s metrics, e.g. `{ api: 'github' }`
+   */
+  attach(target: RateLimiter | QuotaManager, labels: Labels = {}) {
+    const limiter = target instanceof QuotaManager ? undefined : target;
+    const series: Series = {
+      target,
+      limiter,
+      quotaManager: limiter ? limiter.quotaManager : (target as QuotaManager),
+      labels,
+      admitted: 0,
+      rejected: 0,
+      timedOut: 0,
+      waitTime: this.histogram(),
+      runTime: this.histogram(),
+      listeners: []
+    };
+
+    if (limiter) {
+      const started = (e: StartedEvent) => {
+        series.admitted++;
+        this.observe(series.waitTime, e.waitTime / 1000);
+      };
+      const settled = (e: SettledEvent) =>
+        this.observe(series.runTime, e.duration / 1000);
+      const cancelled = (e: CancelledEvent) => series.rejected++;
+      const timedOut = (e: CancelledEvent) => series.timedOut++;
+      limiter
+        .on('started', started)
+        .on('settled', settled)
+        .on('cancelled', cancelled)
+        .on('timed-out', timedOut);
+      series.listeners = [
+        ['started', started],
+        ['settled', settled],
+        ['cancelled', cancelled],
+        ['timed-out', timedOut]
+      ];
+    }
+
+    this.series.push(series);
+  }
+
+  /** Stop collecting metrics from a target */
+  detach(target: RateLimiter | QuotaManager) {
+    this.series
+      .filter(s => s.target === target && s.limiter)
+      .forEach(s =>
+        s.listeners.forEach(([event, listener]) => s.limiter.off(event, listener))
+      );
+    this.series = this.series.filter(s => s.target !== target);
+  }
+
+  /** Render the metrics in the Prometheus text exposition format */
+  render() {
+    const lines: string[] = [];
+
+    METRICS.forEach(metric => {
+      const samples = this.series
+        .map(s => ({ labels: s.labels, value: metric.value(s) }))
+        .filter(sample => sample.value !== undefined && !Number.isNaN(sample.value));
+      if (!samples.length) {
+        return;
+      }
+
+      const name = `${this.prefix}_${metric.name}`;
+      lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+
+      samples.forEach(({ labels, value }) => {
+        if (typeof value === 'number') {
+          lines.push(`${name}${formatLabels(labels)} ${value}`);
+          return;
+        }
+
+        this.buckets.forEach((bound, i) => {
+          const bucketLabels = Object.assign({}, labels, { le: String(bound) });
+          lines.push(`${name}_bucket${formatLabels(bucketLabels)} ${value.counts[i]}`);
+        });
+        const infLabels = Object.assign({}, labels, { le: '+Inf' });
+        lines.push(`${name}_bucket${formatLabels(infLabels)} ${value.count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${value.sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${value.count}`);
+      });
+    });
+
+    return lines.map(line => `${line}\n`).join('');
+  }
+
+  private histogram(): Histogram {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  private observe(histogram: Histogram, value: number) {
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        histogram.counts[i]++;
+      }
+    });
+    histogram.sum += value;
+    histogram.count++;
+  }
+}
+
+/** Format a label set, e.g. `{api="github"}` */
+function formatLabels(labels: Labels) {
+  const pairs = Object.keys(labels).map(name => {
+    const escaped = labels[name]
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n');
+    return `${name}="${escaped}"`;
+  });
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
@@ -0,0 +1,158 @@
+import { Clock, systemClock } from './clock';
+import { Dequeue } from './dequeue';
+
+interface Entry<T> {
+  value: T;
+  priority: number;
+  /** insertion order, used to break ties between lanes */
+  seq: number;
+  enqueuedAt: number;
+}
+
+/**
+ * A queue with one FIFO lane per priority. Higher priorities are served first, and
+ * values of equal priority are served in the order they were added.
+ *
+ * If `aging` is set, a waiting value gains one priority level for every `aging`
+ * milliseconds it has been queued, so low-priority values are not starved.
+ */
+export class PriorityQueue<T> {
+  private readonly lanes = new Map<number, Dequeue<Entry<T>>>();
+  private readonly entries = new Map<T, Entry<T>>();
+  private seq = 0;
+  /** insertion order of values added to the front, counting down */
+  private frontSeq = -1;
+
+  /**
+   * @param aging milliseconds of waiting that raise a value by one priority level
+   * @param clock where to get the time
+   */
+  constructor(private readonly aging = 0, private readonly clock: Clock = systemClock) {}
+
+  get length() {
+    return this.entries.size;
+  }
+
+  clear() {
+    this.lanes.clear();
+    this.entries.clear();
+  }
+
+  /** true if the value is queued */
+  has(value: T) {
+    return this.entries.has(value);
+  }
+
+  /** Add a value to the back of its priority lane (values must be unique) */
+  push(value: T, priority = 0) {
+    const entry = this.add(value, priority, this.seq++);
+    this.lane(priority).push(entry);
+  }
+
+  /** Add a value to the front of its priority lane (values must be unique) */
+  unshift(value: T, priority = 0) {
+    const entry = this.add(value, priority, this.frontSeq--);
+    this.lane(priority).unshift(entry);
+  }
+
+  /** Remove and return the value that should be served next */
+  shift(): T {
+    const lane = this.nextLane();
+    if (!lane) {
+      return undefined;
+    }
+    return this.take(lane, lane.shift());
+  }
+
+  /** The value that should be served next, without removing it */
+  peekFront(): T {
+    const lane = this.nextLane();
+    return lane ? lane.peekFront().value : undefined;
+  }
+
+  /** The value that has been queued the longest, regardless of priority */
+  peekOldest(): T {
+    let oldest: Entry<T> = undefined;
+    for (const lane of this.lanes.values()) {
+      const head = lane.peekFront();
+      if (!oldest || head.seq < oldest.seq) {
+        oldest = head;
+      }
+    }
+    return oldest ? oldest.value : undefined;
+  }
+
+  /** The value that was queued most recently, regardless of priority */
+  peekNewest(): T {
+    let newest: Entry<T> = undefined;
+    for (const lane of this.lanes.values()) {
+      const tail = lane.peekBack();
+      if (!newest || tail.seq > newest.seq) {
+        newest = tail;
+      }
+    }
+    return newest ? newest.value : undefined;
+  }
+
+  /**
+   * Remove a value from the queue.
+   * @returns true if the value was queued
+   */
+  remove(value: T): boolean {
+    const entry = this.entries.get(value);
+    if (!entry) {
+      return false;
+    }
+    const lane = this.lanes.get(entry.priority);
+    lane.remove(entry);
+    this.take(lane, entry);
+    return true;
+  }
+
+  private add(value: T, priority: number, seq: number) {
+    const entry: Entry<T> = { value, priority, seq, enqueuedAt: this.clock.now() };
+    this.entries.set(value, entry);
+    return entry;
+  }
+
+  private lane(priority: number) {
+    let lane = this.lanes.get(priority);
+    if (!lane) {
+      lane = new Dequeue<Entry<T>>();
+      this.lanes.set(priority, lane);
+    }
+    return lane;
+  }
+
+  /** Forget an entry that has been removed from its lane */
+  private take(lane: Dequeue<Entry<T>>, entry: Entry<T>) {
+    if (!lane.length) {
+      this.lanes.delete(entry.priority);
+    }
+    this.entries.delete(entry.value);
+    return entry.value;
+  }
+
+  /** Find the lane whose head has the highest (aged) priority */
+  private nextLane() {
+    const now = this.clock.now();
+    let best: Dequeue<Entry<T>> = undefined;
+    let bestPriority = -Infinity;
+    let bestSeq = Infinity;
+
+    for (const lane of this.lanes.values()) {
+      const head = lane.peekFront();
+      const priority = this.aging
+        ? head.priority + Math.floor((now - head.enqueuedAt) / this.aging)
+        : head.priority;
+
+      if (priority > bestPriority || (priority === bestPriority && head.seq < bestSeq)) {
+        best = lane;
+        bestPriority = priority;
+        bestSeq = head.seq;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1 @@
+export class QueueClearedError extends Error {}
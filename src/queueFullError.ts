@@ -0,0 +1 @@
+export class QueueFullError extends Error {}
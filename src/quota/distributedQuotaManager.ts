@@ -0,0 +1,493 @@
+import { ConnectionStateEvent } from '../events';
+import { sleep, uniqueId, unref } from '../util';
+
+import {
+  decodePeerMessage,
+  encodeLegacyPing,
+  encodePeerMessage,
+  PeerMessage,
+  PeerMessageType,
+  PeerPayload,
+  PROTOCOL_VERSION
+} from './peerMessage';
+import { PeerTransport } from './peerTransport';
+import { Quota } from './quota';
+import { QuotaManager, QuotaManagerOptions } from './quotaManager';
+import { allocateShares, ShareRequest } from './shares';
+
+/** Options for a DistributedQuotaManager */
+export interface DistributedQuotaOptions extends ShareRequest, QuotaManagerOptions {
+  /** how often to ping the channel, in milliseconds (default: 30000) */
+  heartbeatInterval?: number;
+  /**
+   * how long to listen for peers before calculating our share, in milliseconds
+   * (default: 3000)
+   */
+  discoveryTime?: number;
+  /**
+   * if set, servers announce their demand (queued calls, and how much quota they used)
+   * this often, in milliseconds, and share the channel quota in proportion to demand
+   * instead of weight (default: off)
+   */
+  rebalanceInterval?: number;
+  /**
+   * with `rebalanceInterval`, the fraction of an even split that each server gets
+   * however little demand it has, from 0 to 1 (default: 0.2)
+   */
+  demandFloor?: number;
+  /**
+   * called with each message on the channel that isn’t a valid peer message (e.g.
+   * published by something else), and the reason it was rejected
+   */
+  onInvalidMessage?: (message: string, error: Error) => void;
+  /**
+   * what to do while the transport has lost its connection (default: `'keep'`):
+   * - `'keep'`: keep using the share we had
+   * - `'fraction'`: use `degradedShare` of the channel quota
+   * - `'pause'`: don’t start any calls
+   */
+  degradedMode?: 'keep' | 'fraction' | 'pause';
+  /**
+   * with `degradedMode: 'fraction'`, the fraction of the channel quota to use while
+   * disconnected, from 0 to 1 (default: half of our last share)
+   */
+  degradedShare?: number;
+}
+
+/** A server sharing the channel quota, and what it told us about itself */
+interface Peer extends PeerPayload {
+  /** the protocol version it speaks (0 for older versions) */
+  v: number;
+  /** when we last heard from it */
+  seen: number;
+}
+
+/**
+ * QuotaManager that coordinates rate limits across servers, which find each other and
+ * split the channel quota by exchanging messages over a PeerTransport.
+ */
+export class DistributedQuotaManager extends QuotaManager {
+  private readonly uniqueId = uniqueId();
+  private readonly pingsReceived = new Map<string, Peer>();
+  private readonly heartbeatInterval: number;
+  private readonly discoveryTime: number;
+  private readonly rebalanceInterval: number;
+  private readonly demandFloor: number;
+  /** the share of the channel quota we ask for */
+  private readonly shareRequest: ShareRequest;
+  private _share: number;
+  /** the shares calculated during the last rebalanceInterval, oldest first */
+  private recentShares: { at: number; share: number }[] = [];
+  /** the cost of the calls started since we last announced our demand */
+  private usedSinceAnnounced = 0;
+  private _ready: boolean;
+  private heartbeatTimer: any = null;
+  private rebalanceTimer: any = null;
+  private closed = false;
+  private readonly onInvalidMessage: (message: string, error: Error) => void;
+  private _invalidMessages = 0;
+  private readonly degradedMode: 'keep' | 'fraction' | 'pause';
+  private readonly degradedShare: number;
+  private _connectionState: 'connected' | 'disconnected' = 'connected';
+  /** the number of reconnections whose peer discovery is still going on */
+  private rediscovering = 0;
+  private readonly onMessage = (message: string) => this.message(message);
+  private readonly onDisconnect = () => this.disconnected();
+  private readonly onConnect = () => this.reconnected();
+
+  /**
+   * @param channelQuota the overall quota to be split among all clients
+   * @param transport the channel shared by the servers using this quota
+   * @param options our weight or min/max share of the channel quota, and how often to
+   * ping the channel
+   */
+  constructor(
+    private readonly channelQuota: Quota,
+    protected readonly transport: PeerTransport,
+    options: DistributedQuotaOptions = {}
+  ) {
+    // start with 0 concurrency so jobs don’t run until we’re ready
+    super(
+      Object.assign({}, channelQuota, {
+        concurrency: channelQuota.fastStart ? channelQuota.concurrency : 0
+      }),
+      options
+    );
+    this._ready = Boolean(channelQuota.fastStart);
+    const { heartbeatInterval = 30000, discoveryTime = 3000 } = options;
+    const { weight, minShare, maxShare } = options;
+    this.heartbeatInterval = heartbeatInterval;
+    this.discoveryTime = discoveryTime;
+    this.rebalanceInterval = options.rebalanceInterval || 0;
+    this.demandFloor = options.demandFloor === undefined ? 0.2 : options.demandFloor;
+    this.shareRequest = { weight, minShare, maxShare };
+    this.onInvalidMessage = options.onInvalidMessage;
+    this.degradedMode = options.degradedMode || 'keep';
+    this.degradedShare = options.degradedShare;
+    this._share = channelQuota.fastStart ? 1 : 0;
+
+    this.register();
+  }
+
+  /** true once the Quota Manager has discovered its peers and calculated its quota */
+  get ready() {
+    return this._ready;
+  }
+
+  /** The number of servers sharing the channel quota, including this one */
+  get peerCount() {
+    return this.pingsReceived.size;
+  }
+
+  /**
+   * `disconnected` while the transport has lost its connection; a `connection-state`
+   * event (ConnectionStateEvent) is emitted when this changes
+   */
+  get connectionState() {
+    return this._connectionState;
+  }
+
+  /** The number of messages on the channel that weren’t valid peer messages */
+  get invalidMessages() {
+    return this._invalidMessages;
+  }
+
+  /** Our current fraction of the channel quota, from 0 to 1 */
+  get share() {
+    return this._share;
+  }
+
+  /**
+   * Calls are checked against the channel quota, not our share of it: a call that our
+   * share is too small for waits until the share grows
+   */
+  exceedsQuota(cost = 1) {
+    return this.exceeds(this.channelQuota, cost);
+  }
+
+  start(cost = 1) {
+    const started = super.start(cost);
+    if (started) {
+      this.usedSinceAnnounced += cost;
+    }
+    return started;
+  }
+
+  /**
+   * Leave the client pool: stop the timers, tell the other servers we’re leaving (so
+   * they can reclaim our share right away), unsubscribe from the channel, and save a
+   * final snapshot. We start no more invocations, since our share now belongs to the
+   * others.
+   */
+  async close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.clock.clearInterval(this.heartbeatTimer);
+    this.clock.clearInterval(this.rebalanceTimer);
+    this.heartbeatTimer = this.rebalanceTimer = null;
+
+    this.send('leave');
+    this._share = 0;
+    this.setQuota(Object.assign({}, this._quota, { concurrency: 0 }));
+    if (this.transport.removeListener) {
+      this.transport.removeListener('disconnected', this.onDisconnect);
+      this.transport.removeListener('connected', this.onConnect);
+    }
+    await this.transport.unsubscribe();
+    await super.close();
+  }
+
+  /** Join the client pool, coordinated by the shared channel */
+  private async register() {
+    this.pingsReceived.set(
+      this.uniqueId,
+      Object.assign({ v: PROTOCOL_VERSION, seen: this.clock.now() }, this.shareRequest)
+    );
+
+    if (this.transport.on) {
+      this.transport.on('disconnected', this.onDisconnect);
+      this.transport.on('connected', this.onConnect);
+    }
+    await this.transport.subscribe(this.onMessage);
+    if (this.closed) {
+      return;
+    }
+
+    this.send('join');
+
+    if (!this.channelQuota.fastStart) {
+      await sleep(this.discoveryTime, this.clock);
+    }
+    if (this.closed) {
+      return;
+    }
+
+    // if we lost the connection meanwhile, keep the degraded quota until it’s back
+    if (this._connectionState === 'connected') {
+      this.updateQuota();
+    }
+    this._ready = true;
+
+    this.heartbeatTimer = unref(
+      this.clock.setInterval(() => this.heartbeat(), this.heartbeatInterval)
+    );
+
+    if (this.rebalanceInterval) {
+      this.rebalanceTimer = unref(
+        this.clock.setInterval(() => this.announceDemand(), this.rebalanceInterval)
+      );
+    }
+  }
+
+  /** Fall back to the degradedMode when the transport loses its connection */
+  private disconnected() {
+    if (this.closed || this._connectionState === 'disconnected') {
+      return;
+    }
+    this.setConnectionState('disconnected');
+
+    if (this.degradedMode === 'pause') {
+      this.setQuota(Object.assign({}, this._quota, { concurrency: 0 }));
+    } else if (this.degradedMode === 'fraction') {
+      const share =
+        this.degradedShare === undefined ? this._share / 2 : this.degradedShare;
+      this.setQuota(this.quotaForShare(share));
+    }
+  }
+
+  /**
+   * Rediscover our peers when the connection is back: while we were away, we may have
+   * missed joins and leaves, and our peers may have expired us
+   */
+  private async reconnected() {
+    if (this.closed || this._connectionState === 'connected') {
+      return;
+    }
+    this.setConnectionState('connected');
+
+    [...this.pingsReceived.keys()]
+      .filter(id => id !== this.uniqueId)
+      .forEach(id => this.pingsReceived.delete(id));
+    this.rediscovering++;
+    this.send('join');
+
+    await sleep(this.discoveryTime, this.clock);
+    this.rediscovering--;
+    // we may have been closed or disconnected (and reconnected) again in the meantime
+    if (!this.closed && this.connectionState === 'connected' && this.ready) {
+      this.updateQuota();
+    }
+  }
+
+  private setConnectionState(state: 'connected' | 'disconnected') {
+    const event: ConnectionStateEvent = { previous: this._connectionState, state };
+    this._connectionState = state;
+    this.emit('connection-state', event);
+  }
+
+  /**
+   * Send a message to the shared channel, with our share request and demand. Servers
+   * running older versions get our bare id instead (they don’t know about leaving).
+   */
+  private send(type: PeerMessageType) {
+    const { v, seen, ...payload } = this.pingsReceived.get(this.uniqueId);
+    this.transport.publish(
+      encodePeerMessage(
+        type,
+        this.uniqueId,
+        type === 'leave' ? {} : payload,
+        this.clock.now()
+      )
+    );
+    if (type !== 'leave' && this.transport.publishLegacy) {
+      this.transport.publishLegacy(encodeLegacyPing(this.uniqueId));
+    }
+  }
+
+  /** Receive messages from the other servers */
+  private message(raw: string) {
+    if (this.closed) {
+      return;
+    }
+
+    let message: PeerMessage;
+    try {
+      message = decodePeerMessage(raw);
+    } catch (err) {
+      this._invalidMessages++;
+      if (this.onInvalidMessage) {
+        this.onInvalidMessage(String(raw), err);
+      }
+      return;
+    }
+
+    // we hear our own messages too
+    if (message.id === this.uniqueId) {
+      return;
+    }
+
+    if (message.type === 'leave') {
+      if (this.pingsReceived.delete(message.id) && this.ready) {
+        this.updateQuota();
+      }
+      return;
+    }
+
+    const knownPeer = this.pingsReceived.get(message.id);
+    // servers that speak our protocol send bare ids too, for the older versions
+    if (message.v === 0 && knownPeer && knownPeer.v > 0) {
+      knownPeer.seen = this.clock.now();
+      return;
+    }
+
+    const peer: Peer = { v: message.v, seen: this.clock.now() };
+    ['weight', 'minShare', 'maxShare', 'queued', 'used']
+      .filter(key => typeof message.payload[key] === 'number')
+      .forEach(key => (peer[key] = message.payload[key]));
+
+    const shareChanged =
+      !knownPeer ||
+      knownPeer.weight !== peer.weight ||
+      knownPeer.minShare !== peer.minShare ||
+      knownPeer.maxShare !== peer.maxShare ||
+      knownPeer.queued !== peer.queued ||
+      knownPeer.used !== peer.used;
+    this.pingsReceived.set(message.id, peer);
+
+    // answer newcomers, and servers that didn’t know about us
+    if (message.type === 'join' || (!knownPeer && message.type !== 'reply')) {
+      this.send('reply');
+    }
+    if (shareChanged && this.ready) {
+      this.updateQuota();
+    }
+  }
+
+  /** Remove outdated clients */
+  private removeOutdatedClients() {
+    const ancient = this.clock.now() - this.heartbeatInterval * 3;
+    const expired = [...this.pingsReceived].filter(
+      ([k, v]) => v.seen <= ancient && k !== this.uniqueId
+    );
+    expired.forEach(([k, v]) => this.pingsReceived.delete(k));
+  }
+
+  /** Calculate our portion of the overall channel quota */
+  private updateQuota() {
+    // until we have heard from all our peers again, we’d take too big a share
+    if (this.rediscovering) {
+      return;
+    }
+    this.removeOutdatedClients();
+    if (!this.pingsReceived.size) {
+      return;
+    }
+
+    let share = this.targetShare();
+    if (this.rebalanceInterval) {
+      share = this.delayIncrease(share);
+    }
+    this._share = share;
+    this.setQuota(this.quotaForShare(share));
+  }
+
+  /** The given fraction of the channel quota */
+  private quotaForShare(share: number) {
+    // our portion of n, rounded down (with a little slack for floating-point error)
+    const portion = (n: number) => Math.floor(n * share + 1e-9);
+
+    const newQuota = Object.assign({}, this.channelQuota);
+    newQuota.rate = portion(newQuota.rate);
+    if (newQuota.burst !== undefined) {
+      newQuota.burst = portion(newQuota.burst);
+    }
+    if (newQuota.windows) {
+      newQuota.windows = newQuota.windows.map(w => {
+        const windowShare = Object.assign({}, w);
+        windowShare.rate = portion(w.rate);
+        if (windowShare.burst !== undefined) {
+          windowShare.burst = portion(w.burst);
+        }
+        return windowShare;
+      });
+    }
+    if (newQuota.concurrency) {
+      newQuota.concurrency = portion(newQuota.concurrency);
+    }
+    return newQuota;
+  }
+
+  /**
+   * Our fair share of the channel quota: by weight, or, if we share by demand, by
+   * demand (but no less than the demandFloor, or one unit of each limit)
+   */
+  private targetShare() {
+    const ids = [...this.pingsReceived.keys()];
+    const peers = [...this.pingsReceived.values()];
+    let requests: ShareRequest[] = peers;
+
+    const demands = peers.map(p => (p.queued || 0) + (p.used || 0));
+    if (this.rebalanceInterval && demands.some(d => d > 0)) {
+      // enough for at least one unit of every limit, if there are enough to go around
+      const unit = peers.length / this.smallestLimit;
+      const floor = Math.min(1, Math.max(this.demandFloor, unit)) / peers.length;
+      requests = peers.map((p, i) => ({
+        weight: demands[i],
+        minShare: Math.max(floor, p.minShare || 0),
+        maxShare: p.maxShare
+      }));
+    }
+
+    return allocateShares(requests)[ids.indexOf(this.uniqueId)] || 0;
+  }
+
+  /** The smallest of the channel quota’s rates, bursts and concurrency */
+  private get smallestLimit() {
+    const { rate, burst, concurrency, windows = [] } = this.channelQuota;
+    const limits = [rate, burst, concurrency];
+    windows.forEach(w => limits.push(w.rate, w.burst));
+    return Math.min(...limits.filter(n => n > 0));
+  }
+
+  /**
+   * Peers see each other’s announcements at slightly different times, so take a bigger
+   * share only once it has held for a whole rebalanceInterval: by then, every peer has
+   * seen the announcements it’s based on and given up its part. Smaller shares take
+   * effect right away. This way the shares never add up to more than the channel quota.
+   */
+  private delayIncrease(share: number) {
+    const now = this.clock.now();
+    this.recentShares.push({ at: now, share });
+    const since = now - this.rebalanceInterval;
+    while (this.recentShares.length > 1 && this.recentShares[1].at <= since) {
+      this.recentShares.shift();
+    }
+    return Math.min(...this.recentShares.map(s => s.share));
+  }
+
+  /** Tell the others how busy we are, and rebalance */
+  private announceDemand() {
+    if (this._connectionState === 'disconnected') {
+      return;
+    }
+    const self = this.pingsReceived.get(this.uniqueId);
+    self.queued = this.queueDepth;
+    self.used = this.usedSinceAnnounced;
+    this.usedSinceAnnounced = 0;
+    this.send('heartbeat');
+    this.updateQuota();
+  }
+
+  /** Let the others know we’re here */
+  private heartbeat() {
+    if (this._connectionState === 'disconnected') {
+      return;
+    }
+    this.send('heartbeat');
+    if (this.ready) {
+      this.updateQuota();
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+
+import { promisify } from '../util';
+
+import { QuotaSnapshot, QuotaStore } from './quotaStore';
+
+/** QuotaStore that keeps the snapshot in a JSON file */
+export class FileQuotaStore implements QuotaStore {
+  /** the last write, so that writes happen one at a time */
+  private writing: Promise<void> = Promise.resolve();
+
+  /** @param path the file to keep the snapshot in (it needn’t exist yet) */
+  constructor(private readonly path: string) {}
+
+  load(): QuotaSnapshot | undefined {
+    let data: string;
+    try {
+      data = fs.readFileSync(this.path, 'utf8');
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+
+    const snapshot = JSON.parse(data);
+    if (!snapshot || typeof snapshot !== 'object') {
+      throw new Error(`${this.path} does not contain a snapshot`);
+    }
+    return snapshot;
+  }
+
+  /** Write the snapshot to a temporary file, then move it into place */
+  save(snapshot: QuotaSnapshot) {
+    const data = JSON.stringify(snapshot);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const temporary = `${this.path}.tmp`;
+        await promisify(fs.writeFile)(temporary, data);
+        await promisify(fs.rename)(temporary, this.path);
+      });
+    return this.writing;
+  }
+}
@@ -0,0 +1,124 @@
+import { QuotaWindow } from './quota';
+import { WindowSnapshot } from './quotaStore';
+import { RateWindow } from './rateWindow';
+
+/** Formatters that tell the wall-clock time in a time zone, by time zone */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The offset from UTC of the window’s wall clock at time `at`, in milliseconds
+ * @throws RangeError if the window’s timeZone is unknown
+ */
+export function utcOffsetAt(limit: QuotaWindow, at: number) {
+  if (!limit.timeZone) {
+    return (limit.utcOffset || 0) * 60000;
+  }
+
+  let formatter = formatters.get(limit.timeZone);
+  if (!formatter) {
+    // not hourCycle: 'h23', which older versions of Node ignore
+    const options: Intl.DateTimeFormatOptions = {
+      timeZone: limit.timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    };
+    formatter = new Intl.DateTimeFormat('en-US', options);
+    formatters.set(limit.timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(at));
+  const part = (type: string) => Number(parts.find(p => p.type === type).value);
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    // some versions of Intl call midnight 24:00 in 24-hour time
+    part('hour') % 24,
+    part('minute'),
+    part('second')
+  );
+  return wallClock - (at - mod(at, 1000));
+}
+
+/**
+ * Fixed window: allows `rate` units per `interval`, counted in windows aligned to the
+ * wall clock (e.g. per UTC minute, or per calendar day in a time zone). All of the
+ * units become available again at the start of the next window.
+ */
+export class FixedWindow implements RateWindow {
+  /** the current window, from `start` (inclusive) to `end` (exclusive) */
+  private start = -Infinity;
+  private end = -Infinity;
+  /** units used in the current window */
+  private used = 0;
+
+  capacity(limit: QuotaWindow) {
+    return limit.rate;
+  }
+
+  canConsume(limit: QuotaWindow, cost: number, now: number) {
+    this.roll(limit, now);
+    return this.used + cost <= limit.rate;
+  }
+
+  consume(limit: QuotaWindow, cost: number, now: number) {
+    this.roll(limit, now);
+    this.used += cost;
+  }
+
+  waitTime(limit: QuotaWindow, cost: number, now: number) {
+    this.roll(limit, now);
+    return this.used + cost <= limit.rate ? 0 : this.end - now;
+  }
+
+  isEmpty(limit: QuotaWindow, now: number) {
+    this.roll(limit, now);
+    return !this.used;
+  }
+
+  /** When the current window ends, and its units become available again */
+  nextReset(limit: QuotaWindow, now: number) {
+    this.roll(limit, now);
+    return this.end;
+  }
+
+  snapshot(): WindowSnapshot {
+    return { type: 'fixed-window', windowStart: this.start, used: this.used };
+  }
+
+  restore(limit: QuotaWindow, snapshot: WindowSnapshot, now: number) {
+    if (snapshot.type !== 'fixed-window' || typeof snapshot.used !== 'number') {
+      return;
+    }
+    // what was used in an earlier window has been reset since
+    this.roll(limit, now);
+    if (snapshot.windowStart === this.start) {
+      this.used += snapshot.used;
+    }
+  }
+
+  /** Move on to the window that contains `now`, if we aren’t in it */
+  private roll(limit: QuotaWindow, now: number) {
+    if (now >= this.start && now < this.end) {
+      return;
+    }
+    // align to the wall clock, then find the UTC times of the window’s start and end
+    // (which can have different offsets, e.g. across a daylight saving time change)
+    const offset = utcOffsetAt(limit, now);
+    const localStart = now + offset - mod(now + offset, limit.interval);
+    const toUtc = (local: number) => local - utcOffsetAt(limit, local - offset);
+    this.start = Math.min(now, toUtc(localStart));
+    this.end = Math.max(now + 1, toUtc(localStart + limit.interval));
+    this.used = 0;
+  }
+}
+
+/** `n` modulo `m`, always from 0 to m - 1 */
+function mod(n: number, m: number) {
+  return ((n % m) + m) % m;
+}
@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+
+import { PeerTransport } from './peerTransport';
+
+/** The transports subscribed to each in-memory channel, by channel name */
+const channels = new Map<string, Set<InMemoryTransport>>();
+
+/**
+ * PeerTransport between quota managers in the same process, e.g. to try out or test a
+ * shared quota without Redis. Messages are delivered in a microtask, in the order they
+ * were published, to every transport subscribed to the same channel name.
+ */
+export class InMemoryTransport extends EventEmitter implements PeerTransport {
+  private listener: (message: string) => void = null;
+  private _connected = true;
+
+  /** @param channelName unique name for the quota */
+  constructor(private readonly channelName: string) {
+    super();
+  }
+
+  /** false between disconnect() and reconnect() */
+  get connected() {
+    return this._connected;
+  }
+
+  async subscribe(listener: (message: string) => void) {
+    this.listener = listener;
+    if (this._connected) {
+      this.join();
+    }
+  }
+
+  async unsubscribe() {
+    this.listener = null;
+    this.leave();
+  }
+
+  publish(message: string) {
+    // like a lost connection, a disconnected transport drops what it’s given
+    if (!this._connected) {
+      return;
+    }
+    const subscribers = [...(channels.get(this.channelName) || [])];
+    Promise.resolve().then(() => subscribers.forEach(t => t.deliver(message)));
+  }
+
+  /** Lose the connection: nothing is sent or received until reconnect() */
+  disconnect() {
+    if (!this._connected) {
+      return;
+    }
+    this._connected = false;
+    this.leave();
+    this.emit('disconnected');
+  }
+
+  /** Restore the connection after disconnect() */
+  reconnect() {
+    if (this._connected) {
+      return;
+    }
+    this._connected = true;
+    if (this.listener) {
+      this.join();
+    }
+    this.emit('connected');
+  }
+
+  private deliver(message: string) {
+    if (this._connected && this.listener) {
+      this.listener(message);
+    }
+  }
+
+  private join() {
+    if (!channels.has(this.channelName)) {
+      channels.set(this.channelName, new Set());
+    }
+    channels.get(this.channelName).add(this);
+  }
+
+  private leave() {
+    const subscribers = channels.get(this.channelName);
+    if (subscribers && subscribers.delete(this) && !subscribers.size) {
+      channels.delete(this.channelName);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { ShareRequest } from './shares';
+
+/** The version of the peer protocol spoken by this code */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * - `join`: a server is starting up; the others answer with a `reply`
+ * - `heartbeat`: a server is still here (and, with demand-based sharing, how busy it is)
+ * - `leave`: a server is shutting down, so the others can reclaim its share
+ * - `reply`: the answer to a `join`, or to a heartbeat from a server we didn’t know
+ */
+export type PeerMessageType = 'join' | 'heartbeat' | 'leave' | 'reply';
+
+const MESSAGE_TYPES: PeerMessageType[] = ['join', 'heartbeat', 'leave', 'reply'];
+
+/** What a server tells the others about itself; newer versions may add fields */
+export interface PeerPayload extends ShareRequest {
+  /** with demand-based sharing: the number of calls in its queue */
+  queued?: number;
+  /** with demand-based sharing: the cost of the calls it started recently */
+  used?: number;
+  [key: string]: any;
+}
+
+/** A message sent by a server to the others sharing a quota */
+export interface PeerMessage {
+  /** the protocol version (0 for the bare ids sent by older versions) */
+  v: number;
+  type: PeerMessageType;
+  /** the sender’s unique id */
+  id: string;
+  /** when the message was sent, by the sender’s clock (milliseconds since the epoch) */
+  ts: number;
+  payload: PeerPayload;
+}
+
+/** Older versions identify themselves with a bare id, made by util.uniqueId() */
+const LEGACY_ID = /^[0-9a-f]{32}$/;
+
+/** Serialize a message for the channel */
+export function encodePeerMessage(
+  type: PeerMessageType,
+  id: string,
+  payload: PeerPayload = {},
+  ts = Date.now()
+) {
+  const message: PeerMessage = { v: PROTOCOL_VERSION, type, id, ts, payload };
+  return JSON.stringify(message);
+}
+
+/** Serialize a bare id, the only message older versions understand */
+export function encodeLegacyPing(id: string) {
+  return JSON.stringify(id);
+}
+
+/**
+ * Parse a message from the channel. A bare id, as sent by older versions, is read as a
+ * heartbeat with an empty payload.
+ * @throws Error if it isn’t a valid peer message
+ */
+export function decodePeerMessage(raw: string): PeerMessage {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new Error('invalid JSON');
+  }
+
+  if (typeof message === 'string') {
+    if (!LEGACY_ID.test(message)) {
+      throw new Error('not a peer id');
+    }
+    return { v: 0, type: 'heartbeat', id: message, ts: Date.now(), payload: {} };
+  }
+
+  if (!message || typeof message !== 'object') {
+    throw new Error('not a peer message');
+  }
+  if (typeof message.v !== 'number' || message.v < 1) {
+    throw new Error(`unsupported protocol version: ${message.v}`);
+  }
+  if (MESSAGE_TYPES.indexOf(message.type) === -1) {
+    throw new Error(`unknown message type: ${message.type}`);
+  }
+  if (typeof message.id !== 'string' || !message.id) {
+    throw new Error('missing sender id');
+  }
+  if (typeof message.ts !== 'number') {
+    throw new Error('missing timestamp');
+  }
+  if (message.payload !== undefined && typeof message.payload !== 'object') {
+    throw new Error('invalid payload');
+  }
+
+  return {
+    v: message.v,
+    type: message.type,
+    id: message.id,
+    ts: message.ts,
+    payload: message.payload || {}
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * How the servers sharing a quota talk to each other: a channel that each of them can
+ * publish messages to, and that delivers every message (including a server’s own) to
+ * every subscriber.
+ */
+export interface PeerTransport {
+  /** Start delivering the channel’s messages to `listener` */
+  subscribe(listener: (message: string) => void): Promise<void>;
+  /** Stop delivering messages */
+  unsubscribe(): Promise<void>;
+  /** Send a message to everyone on the channel */
+  publish(message: string): void;
+  /**
+   * Send a bare id where servers running older versions will hear it, and where they
+   * won’t hear the messages sent with `publish`; optional, for transports that older
+   * versions used
+   */
+  publishLegacy?(message: string): void;
+  /**
+   * Listen for the connection being lost (`disconnected`), and restored (`connected`,
+   * once messages are being delivered again); optional
+   */
+  on?(event: 'connected' | 'disconnected', listener: () => void): any;
+  removeListener?(event: 'connected' | 'disconnected', listener: () => void): any;
+}
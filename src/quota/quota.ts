@@ -1,10 +1,73 @@
+/** One of several rate limits that apply at the same time */
+export interface QuotaWindow {
+  /** interval over which API calls are counted, in milliseconds */
+  interval: number;
+  /** number of API calls allowed per interval */
+  rate: number;
+  /** (token-bucket only): how many calls can be made at once (default: `rate`) */
+  burst?: number;
+  /** (fixed-window only): overrides the quota’s `utcOffset` for this window */
+  utcOffset?: number;
+  /** (fixed-window only): overrides the quota’s `timeZone` for this window */
+  timeZone?: string;
+}
+
+/**
+ * How the rate backs off when an API call reports that it was throttled (by throwing
+ * ThrottledError): additive-increase, multiplicative-decrease
+ */
+export interface AdaptiveRate {
+  /** multiply the rate by this each time a call is throttled (default: 0.5) */
+  decrease?: number;
+  /** fraction of the full rate restored after each recoveryInterval (default: 0.1) */
+  increase?: number;
+  /** never back off below this fraction of the full rate (default: 0.1) */
+  minimum?: number;
+  /** milliseconds between increases (default: the shortest rate-limit interval) */
+  recoveryInterval?: number;
+}
+
 export interface Quota {
   /** interval (sliding window) over which API calls are counted, in milliseconds */
   interval?: number;
   /** number of API calls allowed per interval */
   rate?: number;
+  /**
+   * how `interval` and `rate` are enforced (default: `sliding-window`)
+   * - `sliding-window`: at most `rate` calls in any `interval`
+   * - `token-bucket`: a bucket of `burst` tokens, refilled at `rate` tokens per
+   *   `interval`
+   * - `fixed-window`: at most `rate` calls per `interval`, in windows aligned to the
+   *   wall clock (e.g. per UTC minute, or per calendar day)
+   */
+  algorithm?: 'sliding-window' | 'token-bucket' | 'fixed-window';
+  /** (token-bucket only): how many calls can be made at once (default: `rate`) */
+  burst?: number;
+  /**
+   * (fixed-window only): the wall clock the windows are aligned to, in minutes east of
+   * UTC, e.g. `-480` for Pacific Standard Time (default: 0, UTC)
+   */
+  utcOffset?: number;
+  /**
+   * (fixed-window only): the wall clock the windows are aligned to, as an IANA time
+   * zone such as `America/Los_Angeles`, following its daylight saving time (overrides
+   * `utcOffset`)
+   */
+  timeZone?: string;
+  /**
+   * additional rate limits (e.g. 10 per second and 5,000 per hour); a call is allowed
+   * only if every window, including `interval`/`rate`, has room for it
+   */
+  windows?: QuotaWindow[];
+  /** how the rate backs off when API calls are throttled (see AdaptiveRate) */
+  adaptive?: AdaptiveRate;
   /** number of concurrent API calls allowed */
   concurrency?: number;
+  /**
+   * if true, a call’s `cost` counts against `concurrency` as well as `rate` (default:
+   * false, each running call counts as 1)
+   */
+  weightedConcurrency?: boolean;
   /**
    * if a request is queued longer than this, it will be discarded and an error thrown
    * (default: 0, disabled)
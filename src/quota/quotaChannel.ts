@@ -0,0 +1,62 @@
+/**
+ * A message channel between processes or threads: a cluster Worker (or `process`, in
+ * the worker), a worker_threads Worker (or `parentPort`, in the worker), or a
+ * MessagePort
+ */
+export interface QuotaChannel {
+  on(event: string, listener: (...args: any[]) => void): any;
+  removeListener(event: string, listener: (...args: any[]) => void): any;
+  /** cluster workers and child processes */
+  send?(message: any): any;
+  /** worker_threads and MessagePorts */
+  postMessage?(message: any): void;
+}
+
+/**
+ * The events with which a cluster Worker, worker_threads Worker or MessagePort goes away
+ * (or, in the worker, with which its channel to the primary or main thread does)
+ */
+export const CLOSE_EVENTS = ['exit', 'disconnect', 'close'];
+
+/** A worker asks for (`acquire`) or gives back (`release`) part of the quota */
+export interface QuotaRequest {
+  /** tells our messages apart from the application’s own */
+  pRateLimit: 1;
+  /** the name of the quota */
+  quota: string;
+  type: 'acquire' | 'release';
+  /** with `acquire`: matches the response to the request */
+  id?: number;
+  cost: number;
+}
+
+/** The answer to an `acquire` request */
+export interface QuotaResponse {
+  pRateLimit: 1;
+  quota: string;
+  type: 'acquired';
+  id: number;
+  allowed: boolean;
+  /**
+   * if not allowed: how long until the rate limits have room, in milliseconds, or -1 if
+   * the invocation has to wait for another one to end
+   */
+  wait: number;
+}
+
+/** Is this one of our messages, for the quota with the given name? */
+export function isQuotaMessage(message: any, quota: string) {
+  return Boolean(message && message.pRateLimit === 1 && message.quota === quota);
+}
+
+/** Send a message over a cluster, child_process or worker_threads channel */
+export function sendQuotaMessage(
+  channel: QuotaChannel,
+  message: QuotaRequest | QuotaResponse
+) {
+  if (typeof channel.postMessage === 'function') {
+    channel.postMessage(message);
+  } else {
+    channel.send(message);
+  }
+}
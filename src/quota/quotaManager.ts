@@ -1,12 +1,51 @@
-import { Dequeue } from '../dequeue';
-import { Quota } from './quota';
+import { EventEmitter } from 'events';
+import { Clock, systemClock } from '../clock';
+import { unref } from '../util';
+import { QuotaChangedEvent } from '../events';
+import { FixedWindow, utcOffsetAt } from './fixedWindow';
+import { Quota, QuotaWindow } from './quota';
+import { QuotaSnapshot, QuotaStore } from './quotaStore';
+import { RateWindow } from './rateWindow';
+import { SlidingWindow } from './slidingWindow';
+import { TokenBucket } from './tokenBucket';
 
-/** keep track of API invocations, allowing or disallowing them based on our quota */
-export class QuotaManager {
+/** Options for a QuotaManager */
+export interface QuotaManagerOptions {
+  /**
+   * where to save the rate windows’ history, so that a restarted process doesn’t start
+   * with an empty window; it is restored on construction (default: none)
+   */
+  store?: QuotaStore;
+  /** how often to save a snapshot to the `store`, in milliseconds (default: 10000) */
+  snapshotInterval?: number;
+  /** where to get the time and set timers (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * keep track of API invocations, allowing or disallowing them based on our quota
+ *
+ * Emits `quota-changed` (QuotaChangedEvent) when the quota is changed.
+ */
+export class QuotaManager extends EventEmitter {
   protected _activeCount = 0;
-  protected history = new Dequeue();
+  /** one RateWindow for each of the quota’s rate limits (see `rateLimits`) */
+  protected windows: RateWindow[];
+  /** no invocations are allowed until this time, after a call was throttled */
+  protected pausedUntil = 0;
+  /** the rate scale set by the last back-off, and when that happened */
+  protected backoffScale = 1;
+  protected backoffAt = -Infinity;
+  /** the number of invocations waiting in the rate limiter’s queue */
+  protected queueDepth = 0;
+  /** where the QuotaManager (and, by default, its rate limiters) gets the time */
+  readonly clock: Clock;
+  private readonly store: QuotaStore;
+  private snapshotTimer: any = null;
 
-  constructor(protected _quota: Quota) {
+  constructor(protected _quota: Quota, options: QuotaManagerOptions = {}) {
+    super();
+    this.clock = options.clock || systemClock;
     if (typeof _quota !== 'object') {
       console.warn(
         '[p-ratelimit QuotaManager] A QuotaManager was created with no quota.'
@@ -23,6 +62,57 @@ export class QuotaManager {
         `interval and rate must be specified.`;
       throw new Error(msg);
     }
+
+    if ((this._quota.windows || []).some(w => !w.interval || !w.rate)) {
+      const msg =
+        `[p-ratelimit QuotaManager] Invalid Quota: each of the quota windows must ` +
+        `specify an interval and rate.`;
+      throw new Error(msg);
+    }
+
+    const rateLimits = this.rateLimits;
+    if (
+      rateLimits.some(w => w.burst !== undefined) &&
+      this._quota.algorithm !== 'token-bucket'
+    ) {
+      const msg =
+        `[p-ratelimit QuotaManager] Invalid Quota: burst can only be used with the ` +
+        `token-bucket algorithm.`;
+      throw new Error(msg);
+    }
+
+    rateLimits
+      .filter(w => w.timeZone && this._quota.algorithm === 'fixed-window')
+      .forEach(w => {
+        try {
+          utcOffsetAt(w, 0);
+        } catch {
+          const msg =
+            `[p-ratelimit QuotaManager] Invalid Quota: unknown timeZone ` +
+            `${JSON.stringify(w.timeZone)}.`;
+          throw new Error(msg);
+        }
+      });
+
+    this.windows = rateLimits.map(() => {
+      switch (this._quota.algorithm) {
+        case 'token-bucket':
+          return new TokenBucket();
+        case 'fixed-window':
+          return new FixedWindow();
+        default:
+          return new SlidingWindow();
+      }
+    });
+
+    this.store = options.store;
+    if (this.store) {
+      this.loadSnapshot();
+      const { snapshotInterval = 10000 } = options;
+      this.snapshotTimer = unref(
+        this.clock.setInterval(() => this.saveSnapshot(), snapshotInterval)
+      );
+    }
   }
 
   /** The current quota */
@@ -30,46 +120,297 @@ export class QuotaManager {
     return Object.assign({}, this._quota);
   }
 
-  /** The number of currently-active invocations */
+  /**
+   * The number of currently-active invocations (or, with `weightedConcurrency`, their
+   * total cost)
+   */
   get activeCount() {
     return this._activeCount;
   }
 
+  /**
+   * The fraction of the quota’s rate currently allowed: less than 1 after API calls
+   * have been throttled, recovering over time
+   */
+  get rateScale() {
+    if (this.backoffScale >= 1) {
+      // we never backed off (and backoffAt is still -Infinity)
+      return 1;
+    }
+    const { increase = 0.1 } = this._quota.adaptive || {};
+    const elapsed = this.clock.now() - this.backoffAt;
+    const steps = Math.floor(elapsed / this.recoveryInterval);
+    return Math.min(1, this.backoffScale + steps * increase);
+  }
+
+  /**
+   * true if nothing is running and the quota holds no record of past invocations, so
+   * the QuotaManager could be discarded and recreated without changing its behavior
+   */
+  get isIdle() {
+    const rateLimits = this.rateLimits;
+    const now = this.clock.now();
+    return (
+      !this._activeCount &&
+      now >= this.pausedUntil &&
+      this.rateScale >= 1 &&
+      this.windows.every((w, i) => w.isEmpty(rateLimits[i], now))
+    );
+  }
+
   /** Max amount of time a queued request can wait before throwing a timeout error */
   get maxDelay() {
     return this._quota.maxDelay || 0;
   }
 
+  /**
+   * Check whether an invocation of the given cost could never be allowed, because it’s
+   * larger than the quota itself.
+   */
+  exceedsQuota(cost = 1) {
+    return this.exceeds(this._quota, cost);
+  }
+
   /**
    * Log that an invocation started.
+   * @param cost how many units of the rate quota the invocation uses
    * @returns true if the invocation was allowed, false if not (you can try again later)
    */
-  start() {
-    if (this._activeCount >= this._quota.concurrency) {
+  start(cost = 1) {
+    if (this._activeCount + this.concurrencyCost(cost) > this._quota.concurrency) {
       return false;
     }
 
-    if (this._quota.interval !== undefined && this._quota.rate !== undefined) {
-      this.removeExpiredHistory();
-      if (this.history.length >= this._quota.rate) {
-        return false;
-      }
-      this.history.push(Date.now());
+    const now = this.clock.now();
+    if (now < this.pausedUntil) {
+      return false;
     }
 
-    this._activeCount++;
+    const rateLimits = this.effectiveRateLimits;
+    if (!this.windows.every((w, i) => w.canConsume(rateLimits[i], cost, now))) {
+      return false;
+    }
+    this.windows.forEach((w, i) => w.consume(rateLimits[i], cost, now));
+
+    this._activeCount += this.concurrencyCost(cost);
     return true;
   }
 
-  /** Log that an invocation ended */
-  end() {
-    this._activeCount--;
+  /**
+   * Like start(), for QuotaManagers that can’t decide right away (e.g. because they
+   * have to ask Redis). The rate limiter starts invocations through this method.
+   * @param cost how many units of the rate quota the invocation uses
+   * @returns true if the invocation was allowed, false if not, or a Promise of either
+   */
+  acquire(cost = 1): boolean | Promise<boolean> {
+    return this.start(cost);
   }
 
-  protected removeExpiredHistory() {
-    const expired = Date.now() - this._quota.interval;
-    while (this.history.length && this.history.peekFront() < expired) {
-      this.history.shift();
+  /**
+   * How long until the rate limits would allow an invocation of the given cost, in
+   * milliseconds: the wait imposed by the most restrictive window (0 if no wait is
+   * needed). Concurrency is not taken into account.
+   */
+  waitTime(cost = 1) {
+    const rateLimits = this.effectiveRateLimits;
+    const now = this.clock.now();
+    const waits = this.windows.map((w, i) => w.waitTime(rateLimits[i], cost, now));
+    return Math.max(0, this.pausedUntil - now, ...waits);
+  }
+
+  /**
+   * When the rate limits would next allow an invocation of the given cost, in
+   * milliseconds since the epoch (see waitTime)
+   */
+  availableAt(cost = 1) {
+    return this.clock.now() + this.waitTime(cost);
+  }
+
+  /**
+   * When the next fixed window resets, making its whole rate available again, in
+   * milliseconds since the epoch (undefined unless the quota uses fixed windows)
+   */
+  nextReset() {
+    const rateLimits = this.rateLimits;
+    const now = this.clock.now();
+    const resets = this.windows
+      .map((w, i) => (w instanceof FixedWindow ? w.nextReset(rateLimits[i], now) : NaN))
+      .filter(reset => !isNaN(reset));
+    return resets.length ? Math.min(...resets) : undefined;
+  }
+
+  /**
+   * Log that an API call was throttled by the API. Pauses all invocations for
+   * `retryAfter` milliseconds and backs off the rate (see `Quota.adaptive`).
+   */
+  throttle(retryAfter = 0) {
+    const now = this.clock.now();
+    const { decrease = 0.5, minimum = 0.1 } = this._quota.adaptive || {};
+
+    // calls that were already running when we backed off don’t count again
+    if (now - this.backoffAt >= this.recoveryInterval) {
+      this.backoffScale = Math.max(minimum, this.rateScale * decrease);
+      this.backoffAt = now;
+    }
+    this.pausedUntil = Math.max(this.pausedUntil, now + retryAfter);
+  }
+
+  /**
+   * Called by the rate limiter with the number of invocations waiting in its queue, for
+   * QuotaManagers that share a quota according to demand
+   */
+  setQueueDepth(depth: number) {
+    this.queueDepth = depth;
+  }
+
+  /**
+   * Log that an invocation ended
+   * @param cost the cost that was passed to start()
+   */
+  end(cost = 1) {
+    this._activeCount -= this.concurrencyCost(cost);
+  }
+
+  /** The state of the rate windows, as saved to the `store` */
+  snapshot(): QuotaSnapshot {
+    return {
+      savedAt: this.clock.now(),
+      windows: this.windows.map(w => w.snapshot()),
+      pausedUntil: this.pausedUntil
+    };
+  }
+
+  /** Save a snapshot to the `store` now */
+  async saveSnapshot() {
+    if (!this.store) {
+      return;
+    }
+    try {
+      await this.store.save(this.snapshot());
+    } catch (err) {
+      console.error(`[p-ratelimit QuotaManager] Could not save snapshot: ${err}`);
+    }
+  }
+
+  /**
+   * Stop saving snapshots periodically, and save a final one. Call this when shutting
+   * down, so the next process knows about the latest invocations.
+   */
+  async close() {
+    this.clock.clearInterval(this.snapshotTimer);
+    this.snapshotTimer = null;
+    await this.saveSnapshot();
+  }
+
+  /** Add the saved state of the rate windows, dropping what has expired */
+  restore(snapshot: QuotaSnapshot) {
+    const rateLimits = this.rateLimits;
+    const now = this.clock.now();
+    (snapshot.windows || []).forEach((w, i) => {
+      if (w && this.windows[i]) {
+        this.windows[i].restore(rateLimits[i], w, now);
+      }
+    });
+    if (snapshot.pausedUntil > now) {
+      this.pausedUntil = Math.max(this.pausedUntil, snapshot.pausedUntil);
+    }
+  }
+
+  /** Replace the quota, keeping track of past invocations */
+  protected setQuota(quota: Quota) {
+    const previous = this._quota;
+    this._quota = quota;
+    if (JSON.stringify(previous) !== JSON.stringify(quota)) {
+      const event: QuotaChangedEvent = {
+        previous: Object.assign({}, previous),
+        quota: this.quota
+      };
+      this.emit('quota-changed', event);
     }
   }
+
+  /**
+   * Check whether an invocation of the given cost is larger than the given quota, which
+   * must have the same rate limits as ours
+   */
+  protected exceeds(quota: Quota, cost: number) {
+    const rateLimits = rateLimitsOf(quota);
+    if (this.windows.some((w, i) => cost > w.capacity(rateLimits[i]))) {
+      return true;
+    }
+    return Boolean(quota.weightedConcurrency && cost > quota.concurrency);
+  }
+
+  /** The rate limits of the current quota. They line up with `this.windows`. */
+  protected get rateLimits() {
+    return rateLimitsOf(this._quota);
+  }
+
+  /** The rate limits, scaled down while backing off after throttling */
+  protected get effectiveRateLimits() {
+    const scale = this.rateScale;
+    if (scale >= 1) {
+      return this.rateLimits;
+    }
+
+    const scaled = (n: number) =>
+      n === undefined ? undefined : Math.max(1, Math.floor(n * scale));
+    return this.rateLimits.map(w =>
+      Object.assign({}, w, { rate: scaled(w.rate), burst: scaled(w.burst) })
+    );
+  }
+
+  /** Milliseconds between the additive increases of the rate scale */
+  protected get recoveryInterval() {
+    const { recoveryInterval } = this._quota.adaptive || {};
+    if (recoveryInterval) {
+      return recoveryInterval;
+    }
+    const intervals = this.rateLimits.map(w => w.interval);
+    return intervals.length ? Math.min(...intervals) : 1000;
+  }
+
+  /** Restore the last snapshot from the `store`, if there is one */
+  private loadSnapshot() {
+    const restore = (snapshot: QuotaSnapshot) => {
+      if (snapshot) {
+        this.restore(snapshot);
+      }
+    };
+    const onError = (err: Error) =>
+      console.error(`[p-ratelimit QuotaManager] Could not load snapshot: ${err}`);
+
+    try {
+      const loaded = this.store.load();
+      if (loaded && typeof (loaded as Promise<QuotaSnapshot>).then === 'function') {
+        (loaded as Promise<QuotaSnapshot>).then(restore, onError);
+      } else {
+        restore(loaded as QuotaSnapshot);
+      }
+    } catch (err) {
+      onError(err);
+    }
+  }
+
+  /** How much of the concurrency quota an invocation of the given cost uses */
+  protected concurrencyCost(cost: number) {
+    return this._quota.weightedConcurrency ? cost : 1;
+  }
+}
+
+/** The rate limits of a quota: its `interval`/`rate` (if any), then its `windows` */
+function rateLimitsOf(quota: Quota) {
+  const result: QuotaWindow[] = [];
+  if (quota.interval !== undefined && quota.rate !== undefined) {
+    const { interval, rate, burst } = quota;
+    result.push({ interval, rate, burst });
+  }
+  const windows = result.concat(quota.windows || []);
+
+  // fixed windows follow the quota’s wall clock, unless they have their own
+  const { utcOffset, timeZone } = quota;
+  if (utcOffset === undefined && timeZone === undefined) {
+    return windows;
+  }
+  return windows.map(w => Object.assign({ utcOffset, timeZone }, w));
 }
@@ -0,0 +1,131 @@
+import {
+  CLOSE_EVENTS,
+  isQuotaMessage,
+  QuotaChannel,
+  QuotaRequest,
+  QuotaResponse,
+  sendQuotaMessage
+} from './quotaChannel';
+import { QuotaManager } from './quotaManager';
+
+/** A channel we serve, and the costs of the invocations its workers are running */
+interface Client {
+  held: number[];
+  onMessage: (message: any) => void;
+  onClose: () => void;
+}
+
+/**
+ * Shares a QuotaManager, in the primary process or main thread, with RemoteQuotaManagers
+ * in cluster workers or worker threads. Every invocation is decided here, so the quota
+ * is enforced exactly across all of the workers. When a worker exits, the concurrency it
+ * still holds is released.
+ */
+export class QuotaServer {
+  private readonly clients = new Map<QuotaChannel, Client>();
+
+  /**
+   * @param quotaManager the QuotaManager that owns the quota
+   * @param name unique name for this quota, the same as the workers’ RemoteQuotaManagers
+   */
+  constructor(
+    private readonly quotaManager: QuotaManager,
+    private readonly name: string
+  ) {}
+
+  /** The number of channels being served */
+  get channelCount() {
+    return this.clients.size;
+  }
+
+  /**
+   * Serve the quota to the workers at the other end of a channel: a cluster Worker, a
+   * worker_threads Worker, or a MessagePort
+   */
+  serve(channel: QuotaChannel) {
+    if (this.clients.has(channel)) {
+      return;
+    }
+    const client: Client = {
+      held: [],
+      onMessage: message =>
+        this.message(channel, message).catch(err =>
+          console.error(`[p-ratelimit QuotaServer] Could not answer a worker: ${err}`)
+        ),
+      onClose: () => this.disconnect(channel)
+    };
+    this.clients.set(channel, client);
+    channel.on('message', client.onMessage);
+    CLOSE_EVENTS.forEach(event => channel.on(event, client.onClose));
+  }
+
+  /**
+   * Stop serving a channel, releasing the concurrency its workers still hold. This
+   * happens on its own when the worker exits or the channel is closed.
+   */
+  disconnect(channel: QuotaChannel) {
+    const client = this.clients.get(channel);
+    if (!client) {
+      return;
+    }
+    this.clients.delete(channel);
+    channel.removeListener('message', client.onMessage);
+    CLOSE_EVENTS.forEach(event => channel.removeListener(event, client.onClose));
+    client.held.forEach(cost => this.quotaManager.end(cost));
+    client.held = [];
+  }
+
+  private async message(channel: QuotaChannel, message: any) {
+    const client = this.clients.get(channel);
+    if (!client || !isQuotaMessage(message, this.name)) {
+      return;
+    }
+    const request: QuotaRequest = message;
+
+    if (request.type === 'release') {
+      const i = client.held.indexOf(request.cost);
+      if (i !== -1) {
+        client.held.splice(i, 1);
+        this.quotaManager.end(request.cost);
+      }
+      return;
+    }
+    if (request.type !== 'acquire') {
+      return;
+    }
+
+    let allowed = false;
+    try {
+      allowed = await this.quotaManager.acquire(request.cost);
+    } catch (err) {
+      // the worker will ask again
+      console.error(`[p-ratelimit QuotaServer] Could not acquire the quota: ${err}`);
+    }
+    if (this.clients.get(channel) !== client) {
+      // the worker went away while we decided
+      if (allowed) {
+        this.quotaManager.end(request.cost);
+      }
+      return;
+    }
+    if (allowed) {
+      client.held.push(request.cost);
+    }
+
+    const waitTime = allowed ? 0 : this.quotaManager.waitTime(request.cost);
+    const response: QuotaResponse = {
+      pRateLimit: 1,
+      quota: this.name,
+      type: 'acquired',
+      id: request.id,
+      allowed,
+      wait: allowed || waitTime > 0 ? waitTime : -1
+    };
+    try {
+      sendQuotaMessage(channel, response);
+    } catch {
+      // the channel is closed, so the worker is gone
+      this.disconnect(channel);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+/** The saved state of one of a quota’s rate windows */
+export interface WindowSnapshot {
+  type: 'sliding-window' | 'token-bucket' | 'fixed-window';
+  /** sliding window: the time and cost of each invocation in the history */
+  history?: [number, number][];
+  /** token bucket: the tokens in the bucket as of `updatedAt` */
+  tokens?: number;
+  updatedAt?: number;
+  /** fixed window: the start of the current window, and the units used in it */
+  windowStart?: number;
+  used?: number;
+}
+
+/** The saved state of a QuotaManager, so that a restarted process can carry on */
+export interface QuotaSnapshot {
+  /** when the snapshot was taken (milliseconds since the epoch) */
+  savedAt: number;
+  /** one for each of the quota’s rate limits, in order */
+  windows: WindowSnapshot[];
+  /** no invocations are allowed until this time, after a call was throttled */
+  pausedUntil: number;
+}
+
+/** Where a QuotaManager keeps its snapshots */
+export interface QuotaStore {
+  /** The last snapshot that was saved, or undefined if there is none */
+  load(): QuotaSnapshot | undefined | Promise<QuotaSnapshot | undefined>;
+  save(snapshot: QuotaSnapshot): void | Promise<void>;
+}
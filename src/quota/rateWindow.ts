@@ -0,0 +1,27 @@
+import { QuotaWindow } from './quota';
+import { WindowSnapshot } from './quotaStore';
+
+/**
+ * Rate-limit accounting for one of a quota’s windows. A window only holds state;
+ * the limits are passed in on each call, so they can change (e.g. when a
+ * RedisQuotaManager recalculates its share) without losing track of past invocations.
+ */
+export interface RateWindow {
+  /** The largest cost that could ever be allowed at once */
+  capacity(limit: QuotaWindow): number;
+  /** Check whether `cost` more units can be used at time `now` */
+  canConsume(limit: QuotaWindow, cost: number, now: number): boolean;
+  /** Use `cost` units at time `now` */
+  consume(limit: QuotaWindow, cost: number, now: number): void;
+  /** Milliseconds from `now` until `cost` more units can be used (0 if they can now) */
+  waitTime(limit: QuotaWindow, cost: number, now: number): number;
+  /** Check whether the window holds no record of past usage at time `now` */
+  isEmpty(limit: QuotaWindow, now: number): boolean;
+  /** The window’s state, to be saved */
+  snapshot(): WindowSnapshot;
+  /**
+   * Add saved state to the window, dropping what has expired by `now`. A snapshot of
+   * another type of window is ignored.
+   */
+  restore(limit: QuotaWindow, snapshot: WindowSnapshot, now: number): void;
+}
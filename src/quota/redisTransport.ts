@@ -0,0 +1,146 @@
+import { EventEmitter } from 'events';
+
+import { promisify } from '../util';
+
+import { PeerTransport } from './peerTransport';
+import { RedisClientType, RedisDefaultModules, RedisFunctions, RedisScripts } from 'redis';
+import * as IORedis from 'ioredis';
+
+export type RedisCompatibleClient = RedisClientType<RedisDefaultModules, RedisFunctions, RedisScripts> | IORedis.Redis | IORedis.Cluster;
+
+/**
+ * PeerTransport over a Redis pub/sub channel. Older versions published bare ids on a
+ * channel of their own, and took anything else on it for a new server, so the bare ids
+ * still go there and everything else goes on a second channel.
+ */
+export class RedisTransport extends EventEmitter implements PeerTransport {
+  private readonly channelName: string;
+  /** the channel older versions use */
+  private readonly legacyChannelName: string;
+  private readonly client: RedisCompatibleClient;
+  private readonly pubSubClient: RedisCompatibleClient;
+  /** true if we created the pub/sub client with client.duplicate() */
+  private readonly ownsPubSubClient: boolean;
+  private listener: (message: string) => void = null;
+  private disconnected = false;
+  private quitting = false;
+  private readonly onMessage = (channel: string, message: any) => {
+    const ours = channel === this.channelName || channel === this.legacyChannelName;
+    if (ours && this.listener) {
+      this.listener(String(message));
+    }
+  };
+  private readonly onDisconnect = () => {
+    if (!this.disconnected) {
+      this.disconnected = true;
+      this.emit('disconnected');
+    }
+  };
+  private readonly onReady = () => this.reconnected();
+
+  /**
+   * @param channelName unique name for the quota - the Redis pub/sub channel name
+   * @param client a Redis client (or a pair of Redis clients if using a specialty Redis library)
+   */
+  constructor(channelName: string, client: RedisCompatibleClient | RedisCompatibleClient[]) {
+    super();
+    this.legacyChannelName = `ratelimit-${channelName}`;
+    this.channelName = `ratelimit-${channelName}:v1`;
+
+    const clients = Array.isArray(client) ? client : [client];
+
+    if (clients.length === 1) {
+      this.client = clients[0];
+      if (typeof this.client['duplicate'] !== 'function') {
+        const msg =
+          '[p-ratelimit RedisQuotaManager] Your Redis client does not ' +
+          'support the client.duplicate() function. Please provide an array of two ' +
+          'clients instead.';
+        throw new Error(msg);
+      }
+      this.pubSubClient = this.client['duplicate']();
+      this.ownsPubSubClient = true;
+    } else {
+      this.client = clients[0];
+      this.pubSubClient = clients[1];
+      this.ownsPubSubClient = false;
+    }
+  }
+
+  async subscribe(listener: (message: string) => void) {
+    this.listener = listener;
+    this.pubSubClient.on('message', this.onMessage);
+    ['end', 'close', 'reconnecting'].forEach(event =>
+      this.pubSubClient.on(event, this.onDisconnect)
+    );
+    this.pubSubClient.on('ready', this.onReady);
+    await this.subscribeChannels('subscribe');
+  }
+
+  async unsubscribe() {
+    this.listener = null;
+    this.pubSubClient.removeListener('message', this.onMessage);
+    ['end', 'close', 'reconnecting'].forEach(event =>
+      this.pubSubClient.removeListener(event, this.onDisconnect)
+    );
+    this.pubSubClient.removeListener('ready', this.onReady);
+    await this.subscribeChannels('unsubscribe');
+  }
+
+  publish(message: string) {
+    this.send(this.channelName, message);
+  }
+
+  publishLegacy(message: string) {
+    this.send(this.legacyChannelName, message);
+  }
+
+  /** Quit the pub/sub client, if it was created with client.duplicate() */
+  async quit() {
+    if (!this.ownsPubSubClient || this.quitting) {
+      return;
+    }
+    this.quitting = true;
+    const result = this.pubSubClient['quit']();
+    if (result && typeof result.then === 'function') {
+      await result;
+    }
+  }
+
+  /** Re-subscribe when the pub/sub client is ready again */
+  private async reconnected() {
+    if (!this.disconnected || !this.listener) {
+      return;
+    }
+    try {
+      await this.subscribeChannels('subscribe');
+    } catch {
+      // we’ll try again when the client is ready again
+      return;
+    }
+    if (this.disconnected && this.listener) {
+      this.disconnected = false;
+      this.emit('connected');
+    }
+  }
+
+  /** Subscribe to (or unsubscribe from) both of our channels */
+  private async subscribeChannels(command: 'subscribe' | 'unsubscribe') {
+    const fn = promisify(this.pubSubClient[command].bind(this.pubSubClient));
+    await fn(this.channelName);
+    await fn(this.legacyChannelName);
+  }
+
+  /**
+   * Publish a message. One that is lost because Redis is down is just logged: the
+   * heartbeats will tell the other servers again.
+   */
+  private send(channel: string, message: string) {
+    const result = this.client['publish'](channel, message);
+    if (result && typeof result.catch === 'function') {
+      result.catch(err =>
+        console.error(`[p-ratelimit RedisTransport] Could not publish: ${err}`)
+      );
+    }
+  }
+}
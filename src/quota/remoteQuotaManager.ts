@@ -0,0 +1,209 @@
+import { Clock } from '../clock';
+import { unref } from '../util';
+
+import {
+  CLOSE_EVENTS,
+  isQuotaMessage,
+  QuotaChannel,
+  QuotaResponse,
+  sendQuotaMessage
+} from './quotaChannel';
+import { Quota } from './quota';
+import { QuotaManager } from './quotaManager';
+
+/** Options for a RemoteQuotaManager */
+export interface RemoteQuotaOptions {
+  /**
+   * how long to wait before asking again when the shared concurrency quota is full, in
+   * milliseconds (default: 20)
+   */
+  retryInterval?: number;
+  /**
+   * how long to wait for the QuotaServer’s answer before giving up and asking again
+   * later, in milliseconds (default: 5000)
+   */
+  requestTimeout?: number;
+  /** where to get the time (default: the system clock) */
+  clock?: Clock;
+}
+
+/** An acquire request waiting for the QuotaServer’s answer */
+interface PendingRequest {
+  cost: number;
+  answered: (response: QuotaResponse) => void;
+  failed: (err: Error) => void;
+  timer: any;
+}
+
+/**
+ * QuotaManager for cluster workers and worker threads, which asks a QuotaServer in the
+ * primary process or main thread before every invocation. Every invocation costs a
+ * message round trip.
+ */
+export class RemoteQuotaManager extends QuotaManager {
+  private readonly retryInterval: number;
+  private readonly requestTimeout: number;
+  /** the acquire requests waiting for an answer, by id */
+  private readonly pending = new Map<number, PendingRequest>();
+  private lastRequest = 0;
+  /** the time at which the server last said the quota would have room */
+  private retryAt = 0;
+  private readonly onMessage = (message: any) => this.message(message);
+  private readonly onClose = () => this.channelClosed();
+
+  /**
+   * @param quota the overall quota, the same as the QuotaServer’s
+   * @param name unique name for this quota, the same as the QuotaServer’s
+   * @param channel the channel to the QuotaServer: `process` in a cluster worker, or
+   * `parentPort` (or a MessagePort) in a worker thread
+   */
+  constructor(
+    quota: Quota,
+    private readonly name: string,
+    private readonly channel: QuotaChannel,
+    options: RemoteQuotaOptions = {}
+  ) {
+    super(quota, { clock: options.clock });
+    if (
+      typeof channel.send !== 'function' &&
+      typeof channel.postMessage !== 'function'
+    ) {
+      const msg =
+        '[p-ratelimit RemoteQuotaManager] The channel has no send() or postMessage() ' +
+        'function. Are you running in a cluster worker or a worker thread?';
+      throw new Error(msg);
+    }
+    this.retryInterval = options.retryInterval || 20;
+    this.requestTimeout = options.requestTimeout || 5000;
+  }
+
+  /** Invocations must be started with acquire(), which asks the QuotaServer */
+  start(cost = 1): boolean {
+    const msg =
+      '[p-ratelimit RemoteQuotaManager] start() is not supported; use acquire().';
+    throw new Error(msg);
+  }
+
+  /** Ask the QuotaServer to log an invocation, if the quota allows it */
+  async acquire(cost = 1) {
+    if (this.clock.now() < this.pausedUntil) {
+      return false;
+    }
+
+    let response: QuotaResponse;
+    try {
+      response = await this.request(cost);
+    } catch (err) {
+      console.error(`[p-ratelimit RemoteQuotaManager] Channel error: ${err}`);
+      this.retryAt = this.clock.now() + this.retryInterval;
+      return false;
+    }
+
+    if (!response.allowed) {
+      const wait = response.wait > 0 ? response.wait : this.retryInterval;
+      this.retryAt = this.clock.now() + wait;
+      return false;
+    }
+    this._activeCount += this.concurrencyCost(cost);
+    return true;
+  }
+
+  /** How long until the QuotaServer expects the quota to have room */
+  waitTime(cost = 1) {
+    const now = this.clock.now();
+    return Math.max(0, this.pausedUntil - now, this.retryAt - now);
+  }
+
+  /** Log that an invocation ended, giving its concurrency back to the QuotaServer */
+  end(cost = 1) {
+    super.end(cost);
+    this.release(cost);
+  }
+
+  /** Give concurrency back to the QuotaServer */
+  private release(cost: number) {
+    try {
+      sendQuotaMessage(this.channel, {
+        pRateLimit: 1,
+        quota: this.name,
+        type: 'release',
+        cost
+      });
+    } catch (err) {
+      console.error(`[p-ratelimit RemoteQuotaManager] Channel error: ${err}`);
+    }
+  }
+
+  /**
+   * Send an acquire request. We listen to the channel only while we wait for answers,
+   * so that an idle worker can exit.
+   */
+  private request(cost: number) {
+    return new Promise<QuotaResponse>((resolve, reject) => {
+      const id = ++this.lastRequest;
+      if (!this.pending.size) {
+        this.channel.on('message', this.onMessage);
+        CLOSE_EVENTS.forEach(event => this.channel.on(event, this.onClose));
+      }
+      const timer = unref(
+        this.clock.setTimeout(() => this.timedOut(id), this.requestTimeout)
+      );
+      this.pending.set(id, { cost, answered: resolve, failed: reject, timer });
+      try {
+        sendQuotaMessage(this.channel, {
+          pRateLimit: 1,
+          quota: this.name,
+          type: 'acquire',
+          id,
+          cost
+        });
+      } catch (err) {
+        this.settle(id);
+        throw err;
+      }
+    });
+  }
+
+  /**
+   * Give up on an answer. The answer may only be late, so we keep listening for a while
+   * longer, and give back what it allows.
+   */
+  private timedOut(id: number) {
+    const request = this.pending.get(id);
+    const msg = `no answer from the QuotaServer within ${this.requestTimeout} ms`;
+    request.failed(new Error(msg));
+    request.answered = response => response.allowed && this.release(request.cost);
+    request.timer = unref(
+      this.clock.setTimeout(() => this.settle(id), this.requestTimeout)
+    );
+  }
+
+  /** Stop waiting for an answer, and stop listening if there are no more to wait for */
+  private settle(id: number) {
+    this.clock.clearTimeout(this.pending.get(id).timer);
+    this.pending.delete(id);
+    if (!this.pending.size) {
+      this.channel.removeListener('message', this.onMessage);
+      CLOSE_EVENTS.forEach(event => this.channel.removeListener(event, this.onClose));
+    }
+  }
+
+  /** No answers will come, so fail the requests still waiting for one */
+  private channelClosed() {
+    [...this.pending].forEach(([id, request]) => {
+      this.settle(id);
+      request.failed(new Error('the channel to the QuotaServer was closed'));
+    });
+  }
+
+  private message(message: any) {
+    if (!isQuotaMessage(message, this.name) || message.type !== 'acquired') {
+      return;
+    }
+    const request = this.pending.get(message.id);
+    if (request) {
+      this.settle(message.id);
+      request.answered(message);
+    }
+  }
+}
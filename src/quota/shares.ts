@@ -0,0 +1,56 @@
+/** How much of a shared quota a peer asks for */
+export interface ShareRequest {
+  /** relative weight (default: 1) */
+  weight?: number;
+  /** the smallest fraction of the quota the peer should get, from 0 to 1 */
+  minShare?: number;
+  /** the largest fraction of the quota the peer should get, from 0 to 1 */
+  maxShare?: number;
+}
+
+/**
+ * Split a quota among peers in proportion to their weights, keeping each peer’s share
+ * within its minShare and maxShare. Quota that a capped peer can’t use goes to the
+ * others, in proportion to their weights.
+ * @returns each peer’s fraction of the quota, in the same order as `requests`
+ */
+export function allocateShares(requests: ShareRequest[]): number[] {
+  const shares: number[] = requests.map(() => undefined);
+  const min = requests.map(r => Math.max(0, Math.min(1, r.minShare || 0)));
+  const max = requests.map((r, i) =>
+    Math.max(min[i], Math.min(1, r.maxShare === undefined ? 1 : r.maxShare))
+  );
+
+  // if the minimums don’t fit, scale them down
+  const minTotal = min.reduce((a, b) => a + b, 0);
+  if (minTotal > 1) {
+    return min.map(m => m / minTotal);
+  }
+
+  // hand out what’s left by weight, pinning the peers that go out of bounds, until
+  // everyone fits
+  while (shares.some(s => s === undefined)) {
+    const free = shares.map((s, i) => i).filter(i => shares[i] === undefined);
+    const pinned = shares.reduce((a, s) => a + (s || 0), 0);
+    const totalWeight = free.reduce((a, i) => a + weightOf(requests[i]), 0);
+    const remaining = Math.max(0, 1 - pinned);
+    const proposed = (i: number) =>
+      totalWeight ? (remaining * weightOf(requests[i])) / totalWeight : 0;
+
+    const under = free.filter(i => proposed(i) < min[i]);
+    const over = free.filter(i => proposed(i) > max[i]);
+    if (under.length) {
+      under.forEach(i => (shares[i] = min[i]));
+    } else if (over.length) {
+      over.forEach(i => (shares[i] = max[i]));
+    } else {
+      free.forEach(i => (shares[i] = proposed(i)));
+    }
+  }
+
+  return shares;
+}
+
+function weightOf(request: ShareRequest) {
+  return request.weight === undefined ? 1 : Math.max(0, request.weight);
+}
@@ -0,0 +1,81 @@
+import { Dequeue } from '../dequeue';
+import { QuotaWindow } from './quota';
+import { WindowSnapshot } from './quotaStore';
+import { RateWindow } from './rateWindow';
+
+interface HistoryEntry {
+  time: number;
+  cost: number;
+}
+
+/** Sliding-window log: allows `rate` units in any `interval` */
+export class SlidingWindow implements RateWindow {
+  private readonly history = new Dequeue<HistoryEntry>();
+  /** total cost of the invocations in the history */
+  private historyCost = 0;
+
+  capacity(limit: QuotaWindow) {
+    return limit.rate;
+  }
+
+  canConsume(limit: QuotaWindow, cost: number, now: number) {
+    this.removeExpiredHistory(limit, now);
+    return this.historyCost + cost <= limit.rate;
+  }
+
+  consume(limit: QuotaWindow, cost: number, now: number) {
+    this.history.push({ time: now, cost });
+    this.historyCost += cost;
+  }
+
+  waitTime(limit: QuotaWindow, cost: number, now: number) {
+    this.removeExpiredHistory(limit, now);
+    let excess = this.historyCost + cost - limit.rate;
+    if (excess <= 0) {
+      return 0;
+    }
+
+    // find the invocation whose expiry makes enough room
+    for (const entry of this.history) {
+      excess -= entry.cost;
+      if (excess <= 0) {
+        return entry.time + limit.interval + 1 - now;
+      }
+    }
+    return limit.interval;
+  }
+
+  isEmpty(limit: QuotaWindow, now: number) {
+    this.removeExpiredHistory(limit, now);
+    return !this.history.length;
+  }
+
+  snapshot(): WindowSnapshot {
+    const history: [number, number][] = [];
+    for (const entry of this.history) {
+      history.push([entry.time, entry.cost]);
+    }
+    return { type: 'sliding-window', history };
+  }
+
+  restore(limit: QuotaWindow, snapshot: WindowSnapshot, now: number) {
+    if (snapshot.type !== 'sliding-window' || !Array.isArray(snapshot.history)) {
+      return;
+    }
+    const entries = [...this.history].concat(
+      snapshot.history.map(([time, cost]) => ({ time, cost }))
+    );
+    entries.sort((a, b) => a.time - b.time);
+    this.history.clear();
+    this.historyCost = 0;
+    entries.forEach(entry => this.consume(limit, entry.cost, entry.time));
+    this.removeExpiredHistory(limit, now);
+  }
+
+  private removeExpiredHistory(limit: QuotaWindow, now: number) {
+    const expired = now - limit.interval;
+    while (this.history.length && this.history.peekFront().time < expired) {
+      this.historyCost -= this.history.shift().cost;
+    }
+  }
+}
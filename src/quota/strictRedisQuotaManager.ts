@@ -0,0 +1,277 @@
+import { Clock } from '../clock';
+import { uniqueId, unref } from '../util';
+
+import { Quota } from './quota';
+import { QuotaManager } from './quotaManager';
+import { RedisCompatibleClient } from './redisTransport';
+
+/** Options for a StrictRedisQuotaManager */
+export interface StrictRedisQuotaOptions {
+  /**
+   * a running invocation holds a concurrency lease in Redis, renewed while it runs; if
+   * the server dies, its leases expire after this many milliseconds (default: 30000)
+   */
+  leaseTtl?: number;
+  /**
+   * how long to wait before asking Redis again when the shared concurrency quota is
+   * full, in milliseconds (default: 100)
+   */
+  retryInterval?: number;
+  /** where to get the time and set timers (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Common start of the scripts: `cost_of` parses the cost from the end of a sorted-set
+ * member (`<id>:<cost>`), and `now` is the Redis server’s time in milliseconds
+ */
+const PRELUDE = `
+local function cost_of(member)
+  return tonumber(string.match(member, ':([^:]+)$'))
+end
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+`;
+
+/**
+ * Start an invocation if the shared quota allows it.
+ * KEYS: the lease set, then one sorted set per rate window, then the running total of
+ * each window’s costs
+ * ARGV: id, cost, concurrency cost, concurrency (-1: none), lease TTL, then the interval
+ * and rate of each window
+ * Returns {1, 0} if the invocation was allowed, {0, wait} if not, where wait is the time
+ * until a rate window has room, or -1 if concurrency is the problem.
+ */
+const ACQUIRE_SCRIPT = `
+if redis.replicate_commands then redis.replicate_commands() end
+${PRELUDE}
+local cost = tonumber(ARGV[2])
+local concurrency = tonumber(ARGV[4])
+local windows = (#KEYS - 1) / 2
+
+local wait = 0
+for i = 1, windows do
+  local entries_key = KEYS[i + 1]
+  local total_key = KEYS[windows + i + 1]
+  local interval = tonumber(ARGV[2 * i + 4])
+  local rate = tonumber(ARGV[2 * i + 5])
+  local since = '(' .. (now - interval)
+
+  -- only the entries that expire are walked, to take them off the total
+  local expired = 0
+  for _, member in ipairs(redis.call('ZRANGEBYSCORE', entries_key, '-inf', since)) do
+    expired = expired + cost_of(member)
+  end
+  redis.call('ZREMRANGEBYSCORE', entries_key, '-inf', since)
+  local total = tonumber(redis.call('GET', total_key))
+  if redis.call('ZCARD', entries_key) == 0 then
+    total = 0
+    redis.call('DEL', total_key)
+  elseif total == nil then
+    -- the window has no running total yet: add it up once
+    total = 0
+    for _, member in ipairs(redis.call('ZRANGE', entries_key, 0, -1)) do
+      total = total + cost_of(member)
+    end
+    redis.call('SET', total_key, total, 'PX', interval)
+  elseif expired > 0 then
+    total = tonumber(redis.call('INCRBYFLOAT', total_key, -expired))
+  end
+
+  -- if the window is too full, find the entry whose expiry makes enough room
+  local excess = total + cost - rate
+  if excess > 0 then
+    local entries = redis.call('ZRANGE', entries_key, 0, -1, 'WITHSCORES')
+    local j = 1
+    while excess > 0 and j <= #entries do
+      excess = excess - cost_of(entries[j])
+      if excess <= 0 then
+        wait = math.max(wait, tonumber(entries[j + 1]) + interval + 1 - now)
+      end
+      j = j + 2
+    end
+  end
+end
+if wait > 0 then
+  return {0, wait}
+end
+
+if concurrency >= 0 then
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+  local active = 0
+  for _, member in ipairs(redis.call('ZRANGE', KEYS[1], 0, -1)) do
+    active = active + cost_of(member)
+  end
+  if active + tonumber(ARGV[3]) > concurrency then
+    return {0, -1}
+  end
+  redis.call('ZADD', KEYS[1], now + tonumber(ARGV[5]), ARGV[1] .. ':' .. ARGV[3])
+  redis.call('PEXPIRE', KEYS[1], ARGV[5])
+end
+
+for i = 1, windows do
+  local interval = ARGV[2 * i + 4]
+  redis.call('ZADD', KEYS[i + 1], now, ARGV[1] .. ':' .. ARGV[2])
+  redis.call('PEXPIRE', KEYS[i + 1], interval)
+  redis.call('INCRBYFLOAT', KEYS[windows + i + 1], cost)
+  redis.call('PEXPIRE', KEYS[windows + i + 1], interval)
+end
+return {1, 0}
+`;
+
+/** Give back concurrency leases. KEYS: the lease set; ARGV: the lease members */
+const RELEASE_SCRIPT = `
+for i = 1, #ARGV do
+  redis.call('ZREM', KEYS[1], ARGV[i])
+end
+return 0
+`;
+
+/** Extend concurrency leases. KEYS: the lease set; ARGV: lease TTL, lease members */
+const RENEW_SCRIPT = `
+if redis.replicate_commands then redis.replicate_commands() end
+${PRELUDE}
+for i = 2, #ARGV do
+  redis.call('ZADD', KEYS[1], 'XX', now + tonumber(ARGV[1]), ARGV[i])
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+return 0
+`;
+
+/**
+ * QuotaManager that enforces a quota shared by several servers exactly, by keeping the
+ * rate windows and concurrency leases in Redis and updating them with atomic Lua
+ * scripts. Every invocation costs a round trip to Redis.
+ */
+export class StrictRedisQuotaManager extends QuotaManager {
+  private readonly uniqueId = uniqueId();
+  private readonly keyPrefix: string;
+  private readonly leaseTtl: number;
+  private readonly retryInterval: number;
+  /** our leases in Redis, with their concurrency cost */
+  private readonly leases = new Map<string, number>();
+  private lastLease = 0;
+  /** the time at which Redis last said the quota would have room */
+  private retryAt = 0;
+  private renewTimer: any = null;
+
+  /**
+   * @param quota the overall quota, shared by all servers using the same name
+   * @param name unique name for this quota, used to name the Redis keys
+   * @param client a Redis client (`redis` v4 or ioredis)
+   */
+  constructor(
+    quota: Quota,
+    name: string,
+    private readonly client: RedisCompatibleClient,
+    options: StrictRedisQuotaOptions = {}
+  ) {
+    super(quota, { clock: options.clock });
+    if (quota.algorithm && quota.algorithm !== 'sliding-window') {
+      const msg =
+        '[p-ratelimit StrictRedisQuotaManager] Invalid Quota: only the sliding-window ' +
+        'algorithm is supported.';
+      throw new Error(msg);
+    }
+    // the hash tag keeps all of the keys in the same slot on Redis Cluster
+    this.keyPrefix = `ratelimit:{${name}}`;
+    this.leaseTtl = options.leaseTtl || 30000;
+    this.retryInterval = options.retryInterval || 100;
+  }
+
+  /** Invocations must be started with acquire(), which asks Redis */
+  start(cost = 1): boolean {
+    const msg =
+      '[p-ratelimit StrictRedisQuotaManager] start() is not supported; use acquire().';
+    throw new Error(msg);
+  }
+
+  /** Ask Redis to log an invocation, if the shared quota allows it */
+  async acquire(cost = 1) {
+    const now = this.clock.now();
+    if (now < this.pausedUntil) {
+      return false;
+    }
+
+    const lease = `${this.uniqueId}:${++this.lastLease}`;
+    const concurrencyCost = this.concurrencyCost(cost);
+    const concurrency = this._quota.concurrency;
+    const rateLimits = this.effectiveRateLimits;
+    const keys = [`${this.keyPrefix}:leases`].concat(
+      rateLimits.map((w, i) => `${this.keyPrefix}:window:${i}`),
+      rateLimits.map((w, i) => `${this.keyPrefix}:window:${i}:total`)
+    );
+    const args = [lease, cost, concurrencyCost];
+    args.push(concurrency === undefined ? -1 : concurrency, this.leaseTtl);
+    rateLimits.forEach(w => args.push(w.interval, w.rate));
+
+    let result: number[];
+    try {
+      result = await this.eval(ACQUIRE_SCRIPT, keys, args);
+    } catch (err) {
+      console.error(`[p-ratelimit StrictRedisQuotaManager] Redis error: ${err}`);
+      this.retryAt = this.clock.now() + this.retryInterval;
+      return false;
+    }
+
+    const [allowed, wait] = result.map(Number);
+    if (!allowed) {
+      this.retryAt = this.clock.now() + (wait > 0 ? wait : this.retryInterval);
+      return false;
+    }
+
+    if (concurrency !== undefined) {
+      this.leases.set(`${lease}:${concurrencyCost}`, concurrencyCost);
+      this.renewLeases();
+    }
+    this._activeCount += concurrencyCost;
+    return true;
+  }
+
+  /** How long until Redis expects the shared quota to have room */
+  waitTime(cost = 1) {
+    const now = this.clock.now();
+    return Math.max(0, this.pausedUntil - now, this.retryAt - now);
+  }
+
+  /** Log that an invocation ended, giving back its concurrency lease */
+  end(cost = 1) {
+    super.end(cost);
+    const concurrencyCost = this.concurrencyCost(cost);
+    const lease = [...this.leases].find(([k, v]) => v === concurrencyCost);
+    if (!lease) {
+      return;
+    }
+    this.leases.delete(lease[0]);
+    this.renewLeases();
+    this.eval(RELEASE_SCRIPT, [`${this.keyPrefix}:leases`], [lease[0]]).catch(err =>
+      console.error(`[p-ratelimit StrictRedisQuotaManager] Redis error: ${err}`)
+    );
+  }
+
+  /** Keep renewing our leases while we hold any */
+  private renewLeases() {
+    if (this.leases.size && !this.renewTimer) {
+      this.renewTimer = this.clock.setInterval(() => {
+        const args = [this.leaseTtl, ...this.leases.keys()];
+        this.eval(RENEW_SCRIPT, [`${this.keyPrefix}:leases`], args).catch(err =>
+          console.error(`[p-ratelimit StrictRedisQuotaManager] Redis error: ${err}`)
+        );
+      }, this.leaseTtl / 3);
+      unref(this.renewTimer);
+    } else if (!this.leases.size && this.renewTimer) {
+      this.clock.clearInterval(this.renewTimer);
+      this.renewTimer = null;
+    }
+  }
+
+  /** Run a Lua script, with either ioredis or `redis` v4 */
+  private eval(script: string, keys: string[], args: any[]): Promise<any> {
+    const client: any = this.client;
+    const strings = args.map(String);
+    if (typeof client.defineCommand === 'function') {
+      return client.eval(script, keys.length, ...keys, ...strings);
+    }
+    return client.eval(script, { keys, arguments: strings });
+  }
+}
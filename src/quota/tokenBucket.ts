@@ -0,0 +1,66 @@
+import { QuotaWindow } from './quota';
+import { WindowSnapshot } from './quotaStore';
+import { RateWindow } from './rateWindow';
+
+/**
+ * Token bucket: holds up to `burst` tokens (default: `rate`) and refills continuously at
+ * `rate` tokens per `interval`. Uses constant memory regardless of the rate.
+ */
+export class TokenBucket implements RateWindow {
+  /** tokens in the bucket as of `updatedAt` (undefined: not used yet, so full) */
+  private tokens: number = undefined;
+  private updatedAt = 0;
+
+  capacity(limit: QuotaWindow) {
+    return limit.burst !== undefined ? limit.burst : limit.rate;
+  }
+
+  canConsume(limit: QuotaWindow, cost: number, now: number) {
+    this.refill(limit, now);
+    return this.tokens >= cost;
+  }
+
+  consume(limit: QuotaWindow, cost: number, now: number) {
+    this.refill(limit, now);
+    this.tokens -= cost;
+  }
+
+  waitTime(limit: QuotaWindow, cost: number, now: number) {
+    this.refill(limit, now);
+    const missing = cost - this.tokens;
+    return missing > 0 ? Math.ceil((missing * limit.interval) / limit.rate) : 0;
+  }
+
+  isEmpty(limit: QuotaWindow, now: number) {
+    this.refill(limit, now);
+    return this.tokens >= this.capacity(limit);
+  }
+
+  snapshot(): WindowSnapshot {
+    return { type: 'token-bucket', tokens: this.tokens, updatedAt: this.updatedAt };
+  }
+
+  restore(limit: QuotaWindow, snapshot: WindowSnapshot, now: number) {
+    if (snapshot.type !== 'token-bucket' || typeof snapshot.tokens !== 'number') {
+      return;
+    }
+    // refill the saved bucket until now; if the bucket was used since, keep the emptier
+    const saved = new TokenBucket();
+    saved.tokens = snapshot.tokens;
+    saved.updatedAt = Math.min(snapshot.updatedAt || 0, now);
+    saved.refill(limit, now);
+    this.refill(limit, now);
+    this.tokens = Math.min(this.tokens, saved.tokens);
+  }
+
+  private refill(limit: QuotaWindow, now: number) {
+    const capacity = this.capacity(limit);
+    if (this.tokens === undefined) {
+      this.tokens = capacity;
+    } else {
+      const refilled = ((now - this.updatedAt) * limit.rate) / limit.interval;
+      this.tokens = Math.min(capacity, this.tokens + refilled);
+    }
+    this.updatedAt = now;
+  }
+}
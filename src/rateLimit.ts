@@ -1,68 +1,561 @@
-import { Dequeue } from './dequeue';
+import { EventEmitter } from 'events';
+import { CallOptions } from './callOptions';
+import {
+  CancelledEvent,
+  EnqueuedEvent,
+  QuotaChangedEvent,
+  RetryingEvent,
+  SettledEvent,
+  StartedEvent,
+  ThrottledEvent
+} from './events';
+import { ExecutionTimeoutError } from './executionTimeoutError';
+import { PriorityQueue } from './priorityQueue';
 import { Quota } from './quota/quota';
 import { QuotaManager } from './quota/quotaManager';
+import { QueueClearedError } from './queueClearedError';
+import { QueueFullError } from './queueFullError';
+import { RateLimitAbortError } from './rateLimitAbortError';
+import { RateLimiter } from './rateLimiter';
+import { RateLimitOptions } from './rateLimitOptions';
 import { RateLimitTimeoutError } from './rateLimitTimeoutError';
+import { backoff } from './retryPolicy';
+import { ThrottledError } from './throttledError';
+import { unref } from './util';
+
+const DEFAULT_PRIORITY_LANES = { high: 1, normal: 0, low: -1 };
+
+/** A call waiting in the queue */
+interface Job {
+  id: number;
+  cost: number;
+  run: () => void;
+  /** reject a job that will never run */
+  cancel: (err: Error) => void;
+}
+
+/** A rate limiter, and a function that detaches it from its QuotaManager */
+export interface DisposableRateLimiter {
+  limiter: RateLimiter;
+  /** Stop listening to the QuotaManager; call this only once the limiter is idle */
+  dispose: () => void;
+}
 
 export function pRateLimit(
-  quotaManager: QuotaManager | Quota
-): <T>(fn: () => Promise<T>) => Promise<T> {
+  quotaManager: QuotaManager | Quota,
+  options: RateLimitOptions = {}
+): RateLimiter {
   if (!(quotaManager instanceof QuotaManager)) {
-    return pRateLimit(new QuotaManager(quotaManager));
+    return pRateLimit(new QuotaManager(quotaManager, { clock: options.clock }), options);
   }
+  return createRateLimiter(quotaManager, options).limiter;
+}
 
-  const queue = new Dequeue<Function>();
-  let timerId: NodeJS.Timer = null;
+/**
+ * Create a rate limiter that can be detached from its QuotaManager, for rate limiters
+ * that are discarded while the QuotaManager lives on (e.g. by pRateLimitKeyed)
+ */
+export function createRateLimiter(
+  quotaManager: QuotaManager,
+  options: RateLimitOptions = {}
+): DisposableRateLimiter {
+  const lanes = Object.assign({}, DEFAULT_PRIORITY_LANES, options.priorityLanes);
+  const defaultRetry = options.retry;
+  const defaultTimeout = options.timeout;
+  const { maxQueueSize = Infinity, overflow = 'reject' } = options;
+  const { releaseOnTimeout = false } = options;
+  const clock = options.clock || quotaManager.clock;
+  if (!(maxQueueSize > 0)) {
+    throw new RangeError(`[p-ratelimit] Invalid maxQueueSize: ${maxQueueSize}`);
+  }
+  const queueFull = `the queue is full (${maxQueueSize} queued calls)`;
+  const queue = new PriorityQueue<Job>(options.priorityAging, clock);
+  /** jobs that rejected and are waiting to be retried */
+  const retrying = new Set<Job>();
+  let timerId: any = null;
+  /** when the timer will wake up the queue */
+  let timerAt = Infinity;
+  let active = 0;
+  let paused = false;
+  /** waiting for the QuotaManager to decide whether a call may start */
+  let acquiring = false;
+  /** next() is looking again right away, because the rate limits had room after all */
+  let rechecking = false;
+  let emptyWaiters: Function[] = [];
+  let idleWaiters: Function[] = [];
+  let lastId = 0;
+  const events = new EventEmitter();
 
-  const next = () => {
-    while (queue.length && quotaManager.start()) {
-      queue.shift()();
+  /**
+   * setTimeout, but the timer keeps Node running only if calls are waiting in the queue
+   * or for a retry, so an idle rate limiter doesn’t keep the process alive
+   */
+  const schedule = (fn: () => void, delay: number) => {
+    const id = clock.setTimeout(fn, delay);
+    return queue.length || retrying.size ? id : unref(id);
+  };
+
+  /** Resolve onEmpty() and onIdle() promises whose condition has been met */
+  const notify = () => {
+    quotaManager.setQueueDepth(queue.length + retrying.size);
+    if (queue.length || retrying.size) {
+      return;
+    }
+    const waiters = active ? emptyWaiters : emptyWaiters.concat(idleWaiters);
+    emptyWaiters = [];
+    if (!active) {
+      idleWaiters = [];
     }
+    waiters.forEach(resolve => resolve());
+  };
 
-    if (queue.length && !quotaManager.activeCount && !timerId) {
-      timerId = setTimeout(() => {
-        timerId = null;
+  /** Start a job once the QuotaManager has allowed it asynchronously */
+  const acquired = (job: Job, promise: Promise<boolean>) => {
+    acquiring = true;
+    promise
+      .catch(() => false)
+      .then(allowed => {
+        acquiring = false;
+        if (!allowed) {
+          // don’t ask again until the QuotaManager expects to have room
+          wakeUp();
+          return;
+        }
+        if (queue.has(job)) {
+          job.run();
+        } else {
+          // the job was cancelled while we waited
+          quotaManager.end(job.cost);
+        }
         next();
-      }, 100);
+      });
+  };
+
+  const next = (recheck = false) => {
+    rechecking = recheck;
+    while (queue.length && !paused && !acquiring) {
+      const job = queue.peekFront();
+      if (quotaManager.exceedsQuota(job.cost)) {
+        const msg = `[p-ratelimit] API call cost ${job.cost} exceeds the quota`;
+        job.cancel(new RangeError(msg));
+        continue;
+      }
+      const allowed = quotaManager.acquire(job.cost);
+      if (allowed instanceof Promise) {
+        acquired(job, allowed);
+        break;
+      }
+      if (!allowed) {
+        break;
+      }
+      job.run();
     }
+
+    notify();
+    wakeUp();
   };
 
-  return <T>(fn: () => Promise<T>) => {
-    return new Promise<T>((resolve, reject) => {
-      let timerId: NodeJS.Timer = null;
-      if (quotaManager.maxDelay) {
-        timerId = setTimeout(() => {
+  /**
+   * Schedule next() for when the most restrictive rate window has room; anything else
+   * holding us back (concurrency, a quota change) calls next() when it changes
+   */
+  const wakeUp = () => {
+    let wakeAt =
+      queue.length && !paused && !acquiring
+        ? quotaManager.availableAt(queue.peekFront().cost)
+        : Infinity;
+    if (wakeAt <= clock.now()) {
+      // The rate limits have room: either the call is waiting for concurrency (and the
+      // call that ends will call next()), or the window freed up just after next()
+      // looked at it. Look again right away, but only once.
+      wakeAt = rechecking ? Infinity : clock.now();
+    }
+    if (wakeAt !== timerAt) {
+      clock.clearTimeout(timerId);
+      timerId = null;
+      timerAt = Infinity;
+      if (isFinite(wakeAt)) {
+        const delay = Math.max(0, wakeAt - clock.now());
+        timerAt = wakeAt;
+        timerId = schedule(() => {
           timerId = null;
-          reject(new RateLimitTimeoutError('queue maxDelay timeout exceeded'));
-          next();
-        }, quotaManager.maxDelay);
+          timerAt = Infinity;
+          next(delay === 0);
+        }, delay);
       }
+    }
+  };
 
-      const run = () => {
-        if (quotaManager.maxDelay) {
-          if (timerId) {
-            clearTimeout(timerId);
-          } else {
-            // timeout already fired
-            return;
+  /**
+   * Make room for a new call if the queue is full.
+   * @returns false if the new call should be rejected instead
+   */
+  const makeRoom = () => {
+    if (queue.length < maxQueueSize) {
+      return true;
+    }
+    if (overflow === 'drop-oldest') {
+      const msg = `oldest queued API call was dropped because ${queueFull}`;
+      queue.peekOldest().cancel(new QueueFullError(msg));
+      return true;
+    }
+    if (overflow === 'drop-newest') {
+      const msg = `newest queued API call was dropped because ${queueFull}`;
+      queue.peekNewest().cancel(new QueueFullError(msg));
+      return true;
+    }
+    return false;
+  };
+
+  const onQuotaChanged = (e: QuotaChangedEvent) => {
+    events.emit('quota-changed', e);
+    next();
+  };
+  quotaManager.on('quota-changed', onQuotaChanged);
+
+  const limit = <T>(
+    fn: (signal?: AbortSignal) => Promise<T>,
+    options: CallOptions = {}
+  ) => {
+    return new Promise<T>((resolve, reject) => {
+      const { signal, cost = 1 } = options;
+      const retryPolicy = options.retry === undefined ? defaultRetry : options.retry;
+      const timeout = options.timeout === undefined ? defaultTimeout : options.timeout;
+      if (signal && signal.aborted) {
+        reject(new RateLimitAbortError('API call was aborted before it was queued'));
+        return;
+      }
+
+      if (!(cost > 0) || !isFinite(cost)) {
+        reject(new RangeError(`[p-ratelimit] Invalid API call cost: ${cost}`));
+        return;
+      }
+
+      const priority =
+        typeof options.priority === 'string' ? lanes[options.priority] : options.priority;
+      if (typeof options.priority === 'string' && typeof priority !== 'number') {
+        reject(new Error(`[p-ratelimit] Unknown priority lane: ${options.priority}`));
+        return;
+      }
+      if (priority !== undefined && !isFinite(priority)) {
+        reject(new RangeError(`[p-ratelimit] Invalid API call priority: ${priority}`));
+        return;
+      }
+
+      if (!makeRoom()) {
+        const error = new QueueFullError(`API call was rejected because ${queueFull}`);
+        const event: CancelledEvent = { id: ++lastId, cost, waitTime: 0, error };
+        events.emit('cancelled', event);
+        reject(error);
+        return;
+      }
+
+      let timerId: any = null;
+      let retryTimerId: any = null;
+      let enqueuedAt: number;
+      let attempts = 0;
+      /** when maxDelay runs out, across all attempts */
+      const deadline = clock.now() + quotaManager.maxDelay;
+
+      const dequeue = () => {
+        queue.remove(job);
+        retrying.delete(job);
+        if (timerId) {
+          clock.clearTimeout(timerId);
+          timerId = null;
+        }
+        if (retryTimerId) {
+          clock.clearTimeout(retryTimerId);
+          retryTimerId = null;
+        }
+        if (signal) {
+          signal.removeEventListener('abort', abort);
+        }
+      };
+
+      const abort = () => {
+        job.cancel(new RateLimitAbortError('queued API call was aborted'));
+      };
+
+      const job: Job = {
+        id: ++lastId,
+        cost,
+
+        run() {
+          dequeue();
+          active++;
+          attempts++;
+
+          const startedAt = clock.now();
+          const waitTime = startedAt - enqueuedAt;
+          const startedEvent: StartedEvent = { id: job.id, cost, waitTime };
+          events.emit('started', startedEvent);
+
+          // with a timeout, fn gets its own signal, so it can be aborted when time is up
+          const controller =
+            timeout && typeof AbortController === 'function'
+              ? new AbortController()
+              : null;
+          const forwardAbort = () => controller.abort();
+          if (controller && signal) {
+            signal.addEventListener('abort', forwardAbort);
           }
+          let timeoutId: any = null;
+          /** the caller has been settled (or has timed out) */
+          let finished = false;
+          let released = false;
+
+          /** Give back the concurrency slot and quota, once */
+          const release = () => {
+            if (released) {
+              return;
+            }
+            released = true;
+            clock.clearTimeout(timeoutId);
+            if (controller && signal) {
+              signal.removeEventListener('abort', forwardAbort);
+            }
+            quotaManager.end(cost);
+            active--;
+          };
+
+          const settled = (outcome: 'fulfilled' | 'rejected', error?: any) => {
+            finished = true;
+            const event: SettledEvent = {
+              id: job.id,
+              cost,
+              waitTime,
+              duration: clock.now() - startedAt,
+              outcome,
+              error
+            };
+            events.emit('settled', event);
+          };
+
+          /** Reject the caller, unless the call will be retried */
+          const failed = (err: any) => {
+            settled('rejected', err);
+            if (!retry(err)) {
+              reject(err);
+            }
+          };
+
+          if (timeout) {
+            timeoutId = schedule(() => {
+              if (controller) {
+                controller.abort();
+              }
+              if (releaseOnTimeout) {
+                release();
+              }
+              failed(new ExecutionTimeoutError(`API call timed out after ${timeout} ms`));
+              next();
+            }, timeout);
+          }
+
+          fn(controller ? controller.signal : signal)
+            .then(
+              val => {
+                release();
+                if (!finished) {
+                  settled('fulfilled');
+                  resolve(val);
+                }
+              },
+              err => {
+                release();
+                if (finished) {
+                  return;
+                }
+                if (err instanceof ThrottledError) {
+                  finished = true;
+                  throttled(err);
+                  return;
+                }
+                failed(err);
+              }
+            )
+            .then(() => next());
+        },
+
+        cancel(err: Error) {
+          dequeue();
+          const event: CancelledEvent = {
+            id: job.id,
+            cost,
+            waitTime: clock.now() - enqueuedAt,
+            error: err
+          };
+          const name = err instanceof RateLimitTimeoutError ? 'timed-out' : 'cancelled';
+          events.emit(name, event);
+          reject(err);
+          notify();
         }
+      };
+
+      /** Add the job to the queue (at the front if it’s being retried) */
+      const enqueue = (front: boolean) => {
+        enqueuedAt = clock.now();
 
-        fn()
-          .then(val => {
-            quotaManager.end();
-            resolve(val);
-          })
-          .catch(err => {
-            quotaManager.end();
-            reject(err);
-          })
-          .then(() => {
+        if (front) {
+          queue.unshift(job, priority);
+        } else {
+          queue.push(job, priority);
+        }
+
+        if (quotaManager.maxDelay) {
+          timerId = schedule(() => {
+            timerId = null;
+            job.cancel(new RateLimitTimeoutError('queue maxDelay timeout exceeded'));
             next();
-          });
+          }, deadline - enqueuedAt);
+        }
+
+        if (signal) {
+          signal.addEventListener('abort', abort);
+        }
+        const event: EnqueuedEvent = {
+          id: job.id,
+          cost,
+          priority: priority || 0,
+          queued: queue.length
+        };
+        events.emit('enqueued', event);
+      };
+
+      /**
+       * Put a throttled or retried call back at the front of the queue, if the overflow
+       * policy makes room for it
+       */
+      const requeue = (what: 'throttled' | 'retried') => {
+        if (makeRoom()) {
+          enqueue(true);
+        } else {
+          const msg = `${what} API call was rejected because ${queueFull}`;
+          job.cancel(new QueueFullError(msg));
+        }
+      };
+
+      /** Back off, then put a throttled call back at the front of the queue */
+      const throttled = (err: ThrottledError) => {
+        quotaManager.throttle(err.retryAfter);
+        const event: ThrottledEvent = { id: job.id, cost, retryAfter: err.retryAfter };
+        events.emit('throttled', event);
+
+        if (signal && signal.aborted) {
+          reject(new RateLimitAbortError('throttled API call was aborted'));
+        } else {
+          requeue('throttled');
+        }
       };
 
-      queue.push(run);
+      /**
+       * Schedule a retry of a rejected call, if the retry policy allows it.
+       * @returns false if the call will not be retried
+       */
+      const retry = (err: any) => {
+        if (
+          !retryPolicy ||
+          attempts >= (retryPolicy.maxAttempts || 3) ||
+          (retryPolicy.shouldRetry && !retryPolicy.shouldRetry(err, attempts)) ||
+          (signal && signal.aborted)
+        ) {
+          return false;
+        }
+
+        const delay = backoff(retryPolicy, attempts);
+        if (quotaManager.maxDelay && clock.now() + delay >= deadline) {
+          return false;
+        }
+
+        retrying.add(job);
+        if (signal) {
+          signal.addEventListener('abort', abort);
+        }
+        retryTimerId = schedule(() => {
+          dequeue();
+          requeue('retried');
+          next();
+        }, delay);
+
+        const event: RetryingEvent = {
+          id: job.id,
+          cost,
+          attempt: attempts,
+          delay,
+          error: err
+        };
+        events.emit('retrying', event);
+        return true;
+      };
+
+      enqueue(false);
       next();
     });
   };
+
+  const limiter = Object.defineProperties(
+    Object.assign(limit, {
+      pause() {
+        paused = true;
+      },
+
+      resume() {
+        paused = false;
+        next();
+      },
+
+      onIdle() {
+        return new Promise<void>(resolve => {
+          idleWaiters.push(resolve);
+          notify();
+        });
+      },
+
+      onEmpty() {
+        return new Promise<void>(resolve => {
+          emptyWaiters.push(resolve);
+          notify();
+        });
+      },
+
+      clearQueue(reason = 'the queue was cleared') {
+        while (queue.length) {
+          queue.shift().cancel(new QueueClearedError(reason));
+        }
+        retrying.forEach(job => job.cancel(new QueueClearedError(reason)));
+        next();
+      },
+
+      on(event: string, listener: (...args: any[]) => void) {
+        events.on(event, listener);
+        return limit;
+      },
+
+      once(event: string, listener: (...args: any[]) => void) {
+        events.once(event, listener);
+        return limit;
+      },
+
+      off(event: string, listener: (...args: any[]) => void) {
+        events.off(event, listener);
+        return limit;
+      }
+    }),
+    {
+      queued: { get: () => queue.length + retrying.size },
+      active: { get: () => active },
+      isPaused: { get: () => paused },
+      quotaManager: { value: quotaManager }
+    }
+  ) as RateLimiter;
+
+  const dispose = () => {
+    quotaManager.removeListener('quota-changed', onQuotaChanged);
+    clock.clearTimeout(timerId);
+    timerId = null;
+    timerAt = Infinity;
+  };
+
+  return { limiter, dispose };
 }
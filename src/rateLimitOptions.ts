@@ -0,0 +1,52 @@
+import { Clock } from './clock';
+import { RetryPolicy } from './retryPolicy';
+
+/** Options for a rate limiter created by pRateLimit */
+export interface RateLimitOptions {
+  /**
+   * named priority lanes that can be used as a call’s `priority`, merged with the
+   * defaults (`high: 1`, `normal: 0`, `low: -1`)
+   */
+  priorityLanes?: { [name: string]: number };
+  /**
+   * a queued call gains one priority level for every `priorityAging` milliseconds it
+   * waits, so low-priority calls are not starved (default: 0, disabled)
+   */
+  priorityAging?: number;
+  /**
+   * retry API calls that reject; each retry goes to the front of the queue and uses
+   * quota like any other call, and `maxDelay` applies to the total time across all
+   * attempts (default: no retries)
+   */
+  retry?: RetryPolicy;
+  /**
+   * the maximum time a call may run, in milliseconds; a call that takes longer is
+   * rejected with ExecutionTimeoutError, and the signal passed to it is aborted
+   * (default: no timeout)
+   */
+  timeout?: number;
+  /**
+   * if true, a call that times out gives back its concurrency slot right away; if false,
+   * the slot is held until the call actually settles (default: false)
+   */
+  releaseOnTimeout?: boolean;
+  /**
+   * where to get the time and set timers, e.g. a VirtualClock in tests (default: the
+   * QuotaManager’s clock, which defaults to the system clock)
+   */
+  clock?: Clock;
+  /**
+   * the maximum number of calls that can wait in the queue (default: no limit); see
+   * `overflow` for what happens when it’s full
+   */
+  maxQueueSize?: number;
+  /**
+   * what to do with a new call when the queue is full (default: `'reject'`):
+   * - `'reject'`: reject the new call with a QueueFullError
+   * - `'drop-oldest'`: reject the call that has waited the longest with a QueueFullError,
+   *   and queue the new call
+   * - `'drop-newest'`: reject the most recently queued call with a QueueFullError, and
+   *   queue the new call
+   */
+  overflow?: 'reject' | 'drop-oldest' | 'drop-newest';
+}
@@ -0,0 +1,56 @@
+import { CallOptions } from './callOptions';
+import { QuotaManager } from './quota/quotaManager';
+import {
+  CancelledEvent,
+  EnqueuedEvent,
+  QuotaChangedEvent,
+  RetryingEvent,
+  SettledEvent,
+  StartedEvent,
+  ThrottledEvent
+} from './events';
+
+/** A rate-limited function, as returned by pRateLimit */
+export interface RateLimiter {
+  /** Call `fn` once the quota allows it */
+  <T>(fn: (signal?: AbortSignal) => Promise<T>, options?: CallOptions): Promise<T>;
+
+  /** The number of calls waiting in the queue (including calls waiting to be retried) */
+  readonly queued: number;
+  /** The number of calls that are running */
+  readonly active: number;
+  /** true while the rate limiter is paused */
+  readonly isPaused: boolean;
+  /** The QuotaManager that enforces the quota */
+  readonly quotaManager: QuotaManager;
+
+  /** Stop starting queued calls (running calls are not affected) */
+  pause(): void;
+  /** Start running queued calls again */
+  resume(): void;
+  /** Resolves once the queue is empty and no calls are running */
+  onIdle(): Promise<void>;
+  /** Resolves once the queue is empty (calls may still be running) */
+  onEmpty(): Promise<void>;
+  /** Reject all queued calls (and calls waiting to be retried) with QueueClearedError */
+  clearQueue(reason?: string): void;
+
+  /** Listen for lifecycle events */
+  on(event: 'enqueued', listener: (e: EnqueuedEvent) => void): this;
+  on(event: 'started', listener: (e: StartedEvent) => void): this;
+  on(event: 'settled', listener: (e: SettledEvent) => void): this;
+  on(event: 'throttled', listener: (e: ThrottledEvent) => void): this;
+  on(event: 'retrying', listener: (e: RetryingEvent) => void): this;
+  on(event: 'timed-out' | 'cancelled', listener: (e: CancelledEvent) => void): this;
+  on(event: 'quota-changed', listener: (e: QuotaChangedEvent) => void): this;
+  /** Listen for the next occurrence of a lifecycle event */
+  once(event: 'enqueued', listener: (e: EnqueuedEvent) => void): this;
+  once(event: 'started', listener: (e: StartedEvent) => void): this;
+  once(event: 'settled', listener: (e: SettledEvent) => void): this;
+  once(event: 'throttled', listener: (e: ThrottledEvent) => void): this;
+  once(event: 'retrying', listener: (e: RetryingEvent) => void): this;
+  once(event: 'timed-out' | 'cancelled', listener: (e: CancelledEvent) => void): this;
+  once(event: 'quota-changed', listener: (e: QuotaChangedEvent) => void): this;
+  /** Remove a listener added with on() or once() */
+  off(event: string, listener: (...args: any[]) => void): this;
+}
@@ -0,0 +1,20 @@
+/** How a rate limiter retries API calls that reject */
+export interface RetryPolicy {
+  /** the maximum number of attempts, including the first (default: 3) */
+  maxAttempts?: number;
+  /** the backoff before the first retry is up to this many milliseconds (default: 100) */
+  backoffBase?: number;
+  /** the backoff never exceeds this many milliseconds (default: 10000) */
+  backoffCap?: number;
+  /** return false for errors that should not be retried (default: retry all errors) */
+  shouldRetry?: (err: any, attempt: number) => boolean;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * `min(backoffCap, backoffBase * 2 ** (attempt - 1))`
+ */
+export function backoff(policy: RetryPolicy, attempt: number) {
+  const { backoffBase = 100, backoffCap = 10000 } = policy;
+  return Math.random() * Math.min(backoffCap, backoffBase * Math.pow(2, attempt - 1));
+}
@@ -0,0 +1,10 @@
+/**
+ * Throw this from a rate-limited function when the API reports that it was throttled
+ * (e.g. HTTP 429). The rate limiter pauses for `retryAfter` milliseconds, backs off its
+ * rate, and puts the call back at the front of the queue.
+ */
+export class ThrottledError extends Error {
+  constructor(message = 'API call was throttled', public readonly retryAfter = 0) {
+    super(message);
+  }
+}
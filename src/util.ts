@@ -1,11 +1,21 @@
 import * as crypto from 'crypto';
 
+import { Clock, systemClock } from './clock';
+
 export function uniqueId() {
   return crypto.randomBytes(16).toString('hex');
 }
 
-export function sleep(ms: number) {
-  return new Promise<void>(resolve => setTimeout(resolve, ms));
+export function sleep(ms: number, clock: Clock = systemClock) {
+  return new Promise<void>(resolve => clock.setTimeout(resolve, ms));
+}
+
+/** Let a timer not keep Node running, if it supports that */
+export function unref(timer: any) {
+  if (timer && typeof timer.unref === 'function') {
+    timer.unref();
+  }
+  return timer;
 }
 
 export function promisify(fn) {
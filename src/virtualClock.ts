@@ -0,0 +1,104 @@
+import { Clock } from './clock';
+
+/** A timer set on a VirtualClock */
+interface VirtualTimer {
+  id: number;
+  /** when it is due */
+  at: number;
+  /** for setInterval(): the time between runs */
+  interval: number;
+  fn: () => void;
+  unref(): VirtualTimer;
+}
+
+/** Let pending promise callbacks run */
+const settle = () => new Promise<void>(resolve => setImmediate(resolve));
+
+/**
+ * A Clock that only moves when it’s told to, for fast and deterministic tests. Timers
+ * run as advance() passes their due time, in order of due time (and of creation, for
+ * timers due at the same time).
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private lastId = 0;
+
+  /** @param start the time to start at, in milliseconds since the epoch (default: 0) */
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  /** The number of timers waiting to run */
+  get pendingTimers() {
+    return this.timers.length;
+  }
+
+  now() {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, delay: number) {
+    return this.add(fn, delay, 0);
+  }
+
+  clearTimeout(timer: any) {
+    this.timers = this.timers.filter(t => t !== timer);
+  }
+
+  setInterval(fn: () => void, interval: number) {
+    return this.add(fn, interval, Math.max(1, interval || 0));
+  }
+
+  clearInterval(timer: any) {
+    this.clearTimeout(timer);
+  }
+
+  /**
+   * Move time forward, running the timers that come due. After each timer, pending
+   * promise callbacks run, so that the calls a timer starts can settle (and set timers
+   * of their own) before the next timer runs.
+   * @param ms how far to move, in milliseconds
+   */
+  async advance(ms: number) {
+    const until = this.time + Math.max(0, ms);
+    await settle();
+    for (let timer = this.due(until); timer; timer = this.due(until)) {
+      this.time = Math.max(this.time, timer.at);
+      if (timer.interval) {
+        timer.at += timer.interval;
+      } else {
+        this.clearTimeout(timer);
+      }
+      timer.fn();
+      await settle();
+    }
+    this.time = until;
+  }
+
+  private add(fn: () => void, delay: number, interval: number) {
+    const timer: VirtualTimer = {
+      id: ++this.lastId,
+      at: this.time + Math.max(0, delay || 0),
+      interval,
+      fn,
+      unref: () => timer
+    };
+    this.timers.push(timer);
+    return timer;
+  }
+
+  /** The first timer due by `until`, if any */
+  private due(until: number) {
+    let first: VirtualTimer = undefined;
+    for (const timer of this.timers) {
+      if (
+        timer.at <= until &&
+        (!first || timer.at < first.at || (timer.at === first.at && timer.id < first.id))
+      ) {
+        first = timer;
+      }
+    }
+    return first;
+  }
+}
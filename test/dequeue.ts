@@ -79,3 +79,42 @@ test('clear the dequeue', t => {
   t.is(d.peekFront(), undefined);
   t.is(d.peekBack(), undefined);
 });
+
+test('remove a value from the dequeue', t => {
+  const d = new Dequeue<string>();
+  d.push('foo');
+  d.push('bar');
+  d.push('baz');
+  d.push('qux');
+  t.true(d.remove('bar'), 'remove from the middle'); // [ foo, baz, qux ]
+  t.true(d.remove('foo'), 'remove the head'); // [ baz, qux ]
+  t.true(d.remove('qux'), 'remove the tail'); // [ baz ]
+  t.false(d.remove('nope'), 'value not found');
+  t.is(d.length, 1);
+  t.is(d.peekFront(), 'baz');
+  t.is(d.peekBack(), 'baz');
+  t.true(d.remove('baz'));
+  t.is(d.length, 0);
+  t.is(d.peekFront(), undefined);
+  t.is(d.peekBack(), undefined);
+});
+
+test('remove after pop and shift does not see stale nodes', t => {
+  const d = new Dequeue<string>();
+  d.push('foo');
+  d.push('bar');
+  d.push('baz');
+  d.pop(); // [ foo, bar ]
+  d.shift(); // [ bar ]
+  t.false(d.remove('baz'));
+  t.false(d.remove('foo'));
+  t.is(d.length, 1);
+});
+
+test('iterate the dequeue from front to back', t => {
+  const d = new Dequeue<string>();
+  d.push('bar');
+  d.unshift('foo');
+  d.push('baz');
+  t.deepEqual([...d], ['foo', 'bar', 'baz']);
+});
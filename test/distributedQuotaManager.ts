@@ -0,0 +1,255 @@
+import {
+  DistributedQuotaManager,
+  DistributedQuotaOptions,
+  InMemoryTransport,
+  PeerTransport,
+  pRateLimit,
+  Quota
+} from '../src';
+import { sleep, uniqueId } from '../src/util';
+
+import test from 'ava';
+
+const DISCOVERY_TIME = 50;
+
+/** Start a quota manager on an in-memory channel, and wait until it’s ready */
+async function join(
+  quota: Quota,
+  channelName: string,
+  options: DistributedQuotaOptions = {}
+) {
+  const transport = new InMemoryTransport(channelName);
+  const qm = new DistributedQuotaManager(
+    quota,
+    transport,
+    Object.assign({ discoveryTime: DISCOVERY_TIME }, options)
+  );
+  const expireAt = Date.now() + 1000;
+  while (!qm.ready) {
+    if (Date.now() >= expireAt) {
+      throw new Error('DistributedQuotaManager still not ready after 1 second');
+    }
+    await sleep(10);
+  }
+  return { qm, transport };
+}
+
+test('peers on the same channel split the quota', async t => {
+  const quota: Quota = { rate: 6, interval: 500, concurrency: 3 };
+  const channelName = uniqueId();
+  const [a, b, c] = await Promise.all([1, 2, 3].map(() => join(quota, channelName)));
+
+  [a, b, c].forEach(({ qm }) => {
+    t.is(qm.peerCount, 3);
+    t.deepEqual(qm.quota, { rate: 2, interval: 500, concurrency: 1 });
+  });
+
+  const other = await join(quota, uniqueId());
+  t.is(other.qm.peerCount, 1, 'other channels are separate');
+  t.is(other.qm.quota.rate, 6);
+});
+
+test('peers rebalance when a peer joins or leaves', async t => {
+  const quota: Quota = { rate: 8, interval: 500 };
+  const channelName = uniqueId();
+  const a = await join(quota, channelName, { weight: 3 });
+  t.is(a.qm.quota.rate, 8);
+
+  const b = await join(quota, channelName);
+  t.is(a.qm.quota.rate, 6);
+  t.is(b.qm.quota.rate, 2);
+
+  await b.qm.close();
+  await sleep(0);
+  t.is(a.qm.peerCount, 1);
+  t.is(a.qm.quota.rate, 8);
+  t.is(b.qm.quota.concurrency, 0);
+  t.false(b.qm.start(), 'a closed peer starts nothing');
+});
+
+test('a call bigger than our share waits for the share to grow', async t => {
+  const quota: Quota = { rate: 4, interval: 500 };
+  const channelName = uniqueId();
+  const a = await join(quota, channelName);
+  const b = await join(quota, channelName, { weight: 3 });
+  t.is(a.qm.quota.rate, 1);
+
+  let done = false;
+  const call = pRateLimit(a.qm)(async () => (done = true), { cost: 3 });
+  await sleep(50);
+  t.false(done, 'the call is queued, not rejected');
+
+  await b.qm.close();
+  await call;
+  t.true(done);
+});
+
+test('an idle peer keeps at least one unit of a quota shared by demand', async t => {
+  const quota: Quota = { rate: 10, interval: 1000 };
+  const channelName = uniqueId();
+  const options = { rebalanceInterval: 100 };
+  const peers = await Promise.all([1, 2, 3].map(() => join(quota, channelName, options)));
+  const [a, b, c] = peers;
+
+  const busy = pRateLimit(a.qm);
+  const calls = [...Array(30)].map(() => busy(async () => undefined));
+  calls.forEach(call => call.catch(() => undefined));
+  await sleep(500);
+
+  t.deepEqual(peers.map(p => p.qm.quota.rate), [8, 1, 1]);
+  const start = Date.now();
+  await pRateLimit(b.qm)(async () => undefined);
+  t.true(Date.now() - start < 50, 'the idle peer’s call runs right away');
+  t.is(c.qm.quota.rate, 1);
+  busy.clearQueue();
+});
+
+test('peers that stop sending heartbeats expire', async t => {
+  const quota: Quota = { rate: 4, interval: 500 };
+  const channelName = uniqueId();
+  const options = { heartbeatInterval: 50 };
+  const [a, b] = await Promise.all([1, 2].map(() => join(quota, channelName, options)));
+  t.is(a.qm.quota.rate, 2);
+
+  // b vanishes without saying goodbye
+  b.transport.disconnect();
+  await sleep(250);
+  t.is(a.qm.peerCount, 1);
+  t.is(a.qm.quota.rate, 4);
+});
+
+test('servers running an older version share the quota too', async t => {
+  const quota: Quota = { rate: 12, interval: 500 };
+  const channelName = uniqueId();
+  // an older server, which only sends its bare id
+  const old = new InMemoryTransport(channelName);
+  const heard: string[] = [];
+  await old.subscribe(message => heard.push(message));
+
+  const joined = Promise.all([
+    join(quota, channelName, { weight: 2 }),
+    join(quota, channelName)
+  ]);
+  await sleep(10);
+  old.publish(JSON.stringify(uniqueId()));
+  const [a, b] = await joined;
+  t.is(a.qm.peerCount, 3);
+  t.is(a.qm.quota.rate, 6);
+  t.is(b.qm.quota.rate, 3);
+
+  // with a transport older versions used, a server sends its bare id as well
+  const aId = heard.map(m => JSON.parse(m)).find(m => m.payload && m.payload.weight).id;
+  old.publish(JSON.stringify(aId));
+  await sleep(10);
+  t.is(b.qm.peerCount, 3);
+  t.is(b.qm.quota.rate, 3, 'the bare id doesn’t reset its weight');
+});
+
+test('a disconnected peer uses its degraded mode and rediscovers its peers', async t => {
+  const quota: Quota = { rate: 8, interval: 500 };
+  const channelName = uniqueId();
+  const [a, b] = await Promise.all([
+    join(quota, channelName, { degradedMode: 'fraction', degradedShare: 0.25 }),
+    join(quota, channelName)
+  ]);
+
+  a.transport.disconnect();
+  t.is(a.qm.connectionState, 'disconnected');
+  t.is(a.qm.quota.rate, 2);
+
+  a.transport.reconnect();
+  t.is(a.qm.connectionState, 'connected');
+  await sleep(DISCOVERY_TIME * 3);
+  t.is(a.qm.peerCount, 2);
+  t.is(a.qm.quota.rate, 4);
+  t.is(b.qm.peerCount, 2);
+});
+
+test('replies don’t end the degraded mode before rediscovery is over', async t => {
+  const quota: Quota = { rate: 6, interval: 500, concurrency: 3 };
+  const channelName = uniqueId();
+  const options: DistributedQuotaOptions = { discoveryTime: 200, degradedMode: 'pause' };
+  const [a] = await Promise.all([
+    join(quota, channelName, options),
+    join(quota, channelName, options)
+  ]);
+  a.transport.disconnect();
+  t.is(a.qm.quota.concurrency, 0);
+
+  a.transport.reconnect();
+  await sleep(20);
+  t.is(a.qm.quota.concurrency, 0, 'after the first reply');
+
+  // a newcomer’s join arrives later on
+  const c = join(quota, channelName, options);
+  await sleep(60);
+  t.is(a.qm.quota.concurrency, 0, 'after a later join');
+
+  await c;
+  await sleep(50);
+  t.is(a.qm.peerCount, 3);
+  t.is(a.qm.quota.concurrency, 1);
+});
+
+test('degraded modes hold calls until the connection is back', async t => {
+  const quota: Quota = {
+    rate: 8,
+    interval: 500,
+    concurrency: 4,
+    weightedConcurrency: true
+  };
+  const channelName = uniqueId();
+  const [a, b] = await Promise.all([
+    join(quota, channelName, { degradedMode: 'pause' }),
+    join(quota, channelName, { degradedMode: 'fraction', degradedShare: 0.01 })
+  ]);
+
+  a.transport.disconnect();
+  b.transport.disconnect();
+  t.is(a.qm.quota.concurrency, 0);
+  t.is(b.qm.quota.rate, 0);
+  let done = 0;
+  const calls = [a, b].map(p => pRateLimit(p.qm)(async () => done++, { cost: 2 }));
+  await sleep(50);
+  t.is(done, 0, 'the calls are queued, not rejected');
+
+  a.transport.reconnect();
+  b.transport.reconnect();
+  await Promise.all(calls);
+  t.is(done, 2);
+});
+
+test('a peer disconnected during discovery keeps its degraded quota', async t => {
+  const quota: Quota = { rate: 4, interval: 500, concurrency: 2 };
+  const transport = new InMemoryTransport(uniqueId());
+  const qm = new DistributedQuotaManager(quota, transport, {
+    discoveryTime: DISCOVERY_TIME,
+    degradedMode: 'pause'
+  });
+  transport.disconnect();
+  await sleep(DISCOVERY_TIME * 3);
+  t.true(qm.ready);
+  t.is(qm.quota.concurrency, 0);
+
+  transport.reconnect();
+  await sleep(DISCOVERY_TIME * 3);
+  t.is(qm.quota.concurrency, 2);
+});
+
+test('a transport doesn’t need connection events', async t => {
+  const published: string[] = [];
+  const transport: PeerTransport = {
+    subscribe: async () => undefined,
+    unsubscribe: async () => undefined,
+    publish: message => published.push(message)
+  };
+  const qm = new DistributedQuotaManager({ rate: 4, interval: 500 }, transport, {
+    discoveryTime: DISCOVERY_TIME
+  });
+  await sleep(DISCOVERY_TIME * 3);
+
+  t.true(qm.ready);
+  t.is(qm.quota.rate, 4);
+  await qm.close();
+  t.deepEqual(published.map(m => JSON.parse(m).type), ['join', 'leave']);
+});
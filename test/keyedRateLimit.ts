@@ -0,0 +1,90 @@
+import test from 'ava';
+import { pRateLimitKeyed, QuotaManager } from '../src';
+import { sleep } from '../src/util';
+
+const api = (result = 'ok') => async () => result;
+
+test('each key has its own quota', async t => {
+  const limit = pRateLimitKeyed({ interval: 500, rate: 1 });
+
+  const start = Date.now();
+  await Promise.all([limit('a', api()), limit('b', api()), limit('c', api())]);
+  t.true(Date.now() - start < 250);
+
+  const second = limit('a', api('again'));
+  t.is(limit.stats('a').queued, 1);
+  t.is(await second, 'again');
+  t.true(Date.now() - start >= 500);
+  t.is(limit.size, 3);
+  t.deepEqual(limit.keys(), ['b', 'c', 'a']);
+});
+
+test('per-key quotas from a resolver', async t => {
+  const premium = new QuotaManager({ concurrency: 5 });
+  const limit = pRateLimitKeyed(key =>
+    key === 'premium' ? premium : { concurrency: 1 }
+  );
+
+  await limit('premium', api());
+  await limit('free', api());
+  t.is(limit.stats('premium').quota.concurrency, 5);
+  t.is(limit.stats('free').quota.concurrency, 1);
+  t.is(limit.stats('missing'), undefined);
+});
+
+test('idle keys are evicted', async t => {
+  const limit = pRateLimitKeyed({ interval: 200, rate: 1 }, { evictionInterval: 100 });
+
+  await limit('a', api());
+  t.false(limit.stats('a').idle);
+
+  await sleep(450);
+  t.is(limit.size, 0);
+  t.is(limit.stats('a'), undefined);
+});
+
+test('busy keys are not evicted', async t => {
+  const limit = pRateLimitKeyed({ concurrency: 1 });
+
+  const running = limit('a', () => sleep(200));
+  limit.evictIdle();
+  t.is(limit.size, 1);
+  t.false(limit.stats('a').idle);
+
+  await running;
+  await sleep(0);
+  t.true(limit.stats('a').idle);
+  limit.evictIdle();
+  t.is(limit.size, 0);
+});
+
+test('maxKeys evicts the least-recently used idle keys', async t => {
+  const limit = pRateLimitKeyed({ concurrency: 1 }, { maxKeys: 2 });
+
+  const busy = limit('a', () => sleep(200));
+  await limit('b', api());
+  await sleep(0);
+  await limit('c', api());
+
+  // 'a' is busy, so 'b' goes
+  t.deepEqual(limit.keys(), ['a', 'c']);
+
+  await busy;
+  await sleep(0);
+  await limit('d', api());
+  t.deepEqual(limit.keys(), ['c', 'd']);
+});
+
+test('evicted keys stop listening to a shared QuotaManager', async t => {
+  const shared = new QuotaManager({ concurrency: 5 });
+  const limit = pRateLimitKeyed(() => shared, { maxKeys: 1 });
+
+  for (const key of ['a', 'b', 'c', 'a', 'b', 'c']) {
+    await limit(key, api());
+  }
+  t.is(shared.listenerCount('quota-changed'), 1);
+
+  limit.evictIdle();
+  t.is(limit.size, 0);
+  t.is(shared.listenerCount('quota-changed'), 0);
+});
@@ -0,0 +1,58 @@
+import { pRateLimit, QuotaManager, RateLimitMetrics, RateLimitTimeoutError } from '../src';
+
+import { sleep } from '../src/util';
+import test from 'ava';
+
+test('metrics are rendered in the Prometheus text format', async t => {
+  const rateLimit = pRateLimit({ interval: 1000, rate: 10, concurrency: 1, maxDelay: 50 });
+  const metrics = new RateLimitMetrics({ buckets: [0.1, 1] });
+  metrics.attach(rateLimit, { api: 'vendor' });
+
+  const fn1 = rateLimit(() => sleep(150));
+  const fn2 = rateLimit(() => sleep(100));
+  await t.throwsAsync(fn2, { instanceOf: RateLimitTimeoutError });
+
+  let text = metrics.render();
+  t.true(text.includes('# TYPE p_ratelimit_queued gauge\n'));
+  t.true(text.includes('p_ratelimit_queued{api="vendor"} 0\n'));
+  t.true(text.includes('p_ratelimit_active{api="vendor"} 1\n'));
+  t.true(text.includes('p_ratelimit_admitted_total{api="vendor"} 1\n'));
+  t.true(text.includes('p_ratelimit_timed_out_total{api="vendor"} 1\n'));
+  t.true(text.includes('p_ratelimit_quota_rate{api="vendor"} 10\n'));
+  t.true(text.includes('p_ratelimit_quota_interval_seconds{api="vendor"} 1\n'));
+  t.true(text.includes('p_ratelimit_quota_concurrency{api="vendor"} 1\n'));
+  t.true(text.includes('p_ratelimit_rate_scale{api="vendor"} 1\n'));
+  t.false(text.includes('p_ratelimit_peers'), 'no peers without Redis');
+
+  await fn1;
+  text = metrics.render();
+  t.true(text.includes('# TYPE p_ratelimit_run_seconds histogram\n'));
+  t.true(text.includes('p_ratelimit_run_seconds_bucket{api="vendor",le="0.1"} 0\n'));
+  t.true(text.includes('p_ratelimit_run_seconds_bucket{api="vendor",le="1"} 1\n'));
+  t.true(text.includes('p_ratelimit_run_seconds_bucket{api="vendor",le="+Inf"} 1\n'));
+  t.true(text.includes('p_ratelimit_run_seconds_count{api="vendor"} 1\n'));
+  t.true(text.includes('p_ratelimit_wait_seconds_count{api="vendor"} 1\n'));
+});
+
+test('a QuotaManager can be attached on its own', t => {
+  const qm = new QuotaManager({ concurrency: 3 });
+  const metrics = new RateLimitMetrics({ prefix: 'api' });
+  metrics.attach(qm, { name: 'quote"d' });
+  qm.start();
+
+  const text = metrics.render();
+  t.true(text.includes('api_active{name="quote\\"d"} 1\n'));
+  t.true(text.includes('api_quota_concurrency{name="quote\\"d"} 3\n'));
+  t.false(text.includes('api_queued'), 'no queue without a rate limiter');
+  t.false(text.includes('api_quota_rate'), 'no rate quota');
+});
+
+test('detached rate limiters are no longer tracked', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 });
+  const metrics = new RateLimitMetrics();
+  metrics.attach(rateLimit);
+  metrics.detach(rateLimit);
+
+  await rateLimit(() => sleep(10));
+  t.is(metrics.render(), '');
+});
@@ -0,0 +1,54 @@
+import test from 'ava';
+import {
+  decodePeerMessage,
+  encodePeerMessage,
+  PROTOCOL_VERSION
+} from '../src/quota/peerMessage';
+import { uniqueId } from '../src/util';
+
+test('peer messages survive a round trip', t => {
+  const id = uniqueId();
+  const message = decodePeerMessage(encodePeerMessage('join', id, { weight: 2 }));
+  t.is(message.v, PROTOCOL_VERSION);
+  t.is(message.type, 'join');
+  t.is(message.id, id);
+  t.true(message.ts <= Date.now());
+  t.deepEqual(message.payload, { weight: 2 });
+});
+
+test('a bare id from an older peer is read as a heartbeat', t => {
+  const id = uniqueId();
+  const message = decodePeerMessage(JSON.stringify(id));
+  t.is(message.v, 0);
+  t.is(message.type, 'heartbeat');
+  t.is(message.id, id);
+  t.deepEqual(message.payload, {});
+});
+
+test('newer versions can add payload fields', t => {
+  const raw = JSON.stringify({
+    v: PROTOCOL_VERSION + 1,
+    type: 'heartbeat',
+    id: 'abc',
+    ts: 0,
+    payload: { region: 'eu' }
+  });
+  t.is(decodePeerMessage(raw).payload.region, 'eu');
+});
+
+test('malformed and foreign messages are rejected', t => {
+  const valid = { v: 1, type: 'heartbeat', id: 'abc', ts: 0 };
+  const invalid = [
+    'not json',
+    JSON.stringify('some other string'),
+    JSON.stringify(42),
+    JSON.stringify(null),
+    JSON.stringify(Object.assign({}, valid, { v: undefined })),
+    JSON.stringify(Object.assign({}, valid, { type: 'hello' })),
+    JSON.stringify(Object.assign({}, valid, { id: 7 })),
+    JSON.stringify(Object.assign({}, valid, { ts: 'now' })),
+    JSON.stringify(Object.assign({}, valid, { payload: 'x' }))
+  ];
+  invalid.forEach(raw => t.throws(() => decodePeerMessage(raw), undefined, raw));
+  t.notThrows(() => decodePeerMessage(JSON.stringify(valid)));
+});
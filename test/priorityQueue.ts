@@ -0,0 +1,77 @@
+import { PriorityQueue } from '../src/priorityQueue';
+import { sleep } from '../src/util';
+import test from 'ava';
+
+test('priority queue serves higher priorities first', t => {
+  const q = new PriorityQueue<string>();
+  q.push('low', -1);
+  q.push('normal');
+  q.push('high', 1);
+  t.is(q.length, 3);
+  t.is(q.peekFront(), 'high');
+  t.is(q.shift(), 'high');
+  t.is(q.shift(), 'normal');
+  t.is(q.shift(), 'low');
+  t.is(q.length, 0);
+  t.is(q.shift(), undefined);
+  t.is(q.peekFront(), undefined);
+});
+
+test('values of equal priority are FIFO', t => {
+  const q = new PriorityQueue<number>();
+  for (let i = 0; i < 5; ++i) {
+    q.push(i, i % 2);
+  }
+  t.deepEqual([q.shift(), q.shift(), q.shift(), q.shift(), q.shift()], [1, 3, 0, 2, 4]);
+});
+
+test('remove a value from the priority queue', t => {
+  const q = new PriorityQueue<string>();
+  q.push('foo', 1);
+  q.push('bar');
+  q.push('baz');
+  t.true(q.remove('foo'));
+  t.true(q.remove('baz'));
+  t.false(q.remove('foo'));
+  t.is(q.length, 1);
+  t.is(q.shift(), 'bar');
+});
+
+test('aging lets low-priority values catch up', async t => {
+  const q = new PriorityQueue<string>(50);
+  q.push('low', -1);
+  await sleep(120);
+  q.push('normal');
+  t.is(q.shift(), 'low', 'aged past the normal lane');
+  t.is(q.shift(), 'normal');
+});
+
+test('clear the priority queue', t => {
+  const q = new PriorityQueue<string>();
+  q.push('foo', 1);
+  q.push('bar');
+  q.clear();
+  t.is(q.length, 0);
+  t.is(q.peekFront(), undefined);
+});
+
+test('unshift puts a value at the front of its lane', t => {
+  const q = new PriorityQueue<string>();
+  q.push('foo');
+  q.push('high', 1);
+  q.unshift('bar');
+  q.push('baz');
+  t.deepEqual([q.shift(), q.shift(), q.shift(), q.shift()], ['high', 'bar', 'foo', 'baz']);
+});
+
+test('peek the oldest and newest values', t => {
+  const q = new PriorityQueue<string>();
+  t.is(q.peekOldest(), undefined);
+  t.is(q.peekNewest(), undefined);
+  q.push('low', -1);
+  q.push('high', 1);
+  q.push('normal');
+  t.is(q.peekOldest(), 'low');
+  t.is(q.peekNewest(), 'normal');
+  t.is(q.peekFront(), 'high');
+});
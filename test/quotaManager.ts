@@ -1,7 +1,31 @@
-import { Quota, QuotaManager } from '../src';
+import {
+  FileQuotaStore,
+  pRateLimit,
+  Quota,
+  QuotaManager,
+  QuotaSnapshot,
+  QuotaStore,
+  VirtualClock
+} from '../src';
 
-import { sleep } from '../src/util';
+import { sleep, uniqueId } from '../src/util';
 import test from 'ava';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** A QuotaStore that keeps the snapshot in memory */
+function memoryStore(): QuotaStore & { snapshot: QuotaSnapshot } {
+  return {
+    snapshot: undefined,
+    load() {
+      return this.snapshot;
+    },
+    save(snapshot: QuotaSnapshot) {
+      this.snapshot = JSON.parse(JSON.stringify(snapshot));
+    }
+  };
+}
 
 test('invocations are logged', async t => {
   const quota: Quota = { rate: 3, interval: 500, concurrency: 2 };
@@ -25,3 +49,318 @@ test('throws if an incomplete rate-limit quota is used', t => {
   t.throws(() => new QuotaManager({ interval: 100 }), { message: /Invalid Quota/ });
   t.throws(() => new QuotaManager({ rate: 42 }), { message: /Invalid Quota/ });
 });
+
+test('weighted invocations use up more of the rate quota', t => {
+  const quota: Quota = { rate: 10, interval: 500, concurrency: 2 };
+  const qm: QuotaManager = new QuotaManager(quota);
+
+  t.true(qm.start(6), 'should start job costing 6');
+  t.false(qm.start(5), 'a job costing 5 would exceed the rate of 10');
+  t.true(qm.start(4), 'should start job costing 4');
+  t.is(qm.activeCount, 2, 'concurrency is not weighted by default');
+  qm.end(6);
+  t.false(qm.start(), 'rate quota is used up');
+  qm.end(4);
+  t.is(qm.activeCount, 0);
+});
+
+test('weighted concurrency', t => {
+  const quota: Quota = { concurrency: 5, weightedConcurrency: true };
+  const qm: QuotaManager = new QuotaManager(quota);
+
+  t.true(qm.start(3));
+  t.false(qm.start(3), 'would exceed the concurrency of 5');
+  t.true(qm.start(2));
+  t.is(qm.activeCount, 5);
+  qm.end(3);
+  t.is(qm.activeCount, 2);
+  t.true(qm.start(3));
+});
+
+test('invocations that cost more than the quota are detected', t => {
+  const qm = new QuotaManager({ rate: 10, interval: 500, concurrency: 2 });
+  t.false(qm.exceedsQuota(10));
+  t.true(qm.exceedsQuota(11));
+
+  const weighted = new QuotaManager({ concurrency: 2, weightedConcurrency: true });
+  t.false(weighted.exceedsQuota(2));
+  t.true(weighted.exceedsQuota(3));
+});
+
+test('token bucket allows a burst, then refills at the rate', async t => {
+  const quota: Quota = { algorithm: 'token-bucket', rate: 2, interval: 200, burst: 4 };
+  const qm = new QuotaManager(quota);
+
+  for (let i = 0; i < 4; ++i) {
+    t.true(qm.start(), `burst job ${i + 1}`);
+    qm.end();
+  }
+  t.false(qm.start(), 'the bucket is empty');
+
+  await sleep(120);
+  t.true(qm.start(), 'one token was refilled');
+  qm.end();
+  t.false(qm.start(), 'the bucket is empty again');
+});
+
+test('token bucket capacity is the burst size', t => {
+  const quota: Quota = { algorithm: 'token-bucket', rate: 2, interval: 200, burst: 5 };
+  const qm = new QuotaManager(quota);
+  t.false(qm.exceedsQuota(5));
+  t.true(qm.exceedsQuota(6));
+});
+
+test('throws if burst is used without the token-bucket algorithm', t => {
+  t.throws(() => new QuotaManager({ rate: 2, interval: 200, burst: 5 }), {
+    message: /Invalid Quota/
+  });
+});
+
+test('every quota window must have room', async t => {
+  const quota: Quota = {
+    interval: 100,
+    rate: 2,
+    windows: [{ interval: 1000, rate: 3 }]
+  };
+  const qm = new QuotaManager(quota);
+
+  t.true(qm.start());
+  t.true(qm.start());
+  t.false(qm.start(), 'would exceed 2 per 100 ms');
+  t.true(qm.waitTime() > 0 && qm.waitTime() <= 101, 'short window sets the wait');
+  await sleep(150);
+  t.true(qm.start(), '3rd call in the long window');
+  t.false(qm.start(), 'would exceed 3 per second');
+  t.true(qm.waitTime() > 700, 'long window sets the wait');
+  qm.end();
+  qm.end();
+  qm.end();
+});
+
+test('throws if a quota window is incomplete', t => {
+  const quota: any = { windows: [{ interval: 1000 }] };
+  t.throws(() => new QuotaManager(quota), { message: /Invalid Quota/ });
+});
+
+test('throttling pauses invocations and backs off the rate', async t => {
+  const quota: Quota = {
+    rate: 10,
+    interval: 100,
+    adaptive: { decrease: 0.5, increase: 0.25, minimum: 0.2 }
+  };
+  const qm = new QuotaManager(quota);
+
+  qm.throttle(50);
+  t.is(qm.rateScale, 0.5);
+  t.false(qm.start(), 'paused after throttling');
+  t.true(qm.waitTime() >= 40);
+
+  qm.throttle(50);
+  t.is(qm.rateScale, 0.5, 'only backs off once per recovery interval');
+
+  await sleep(60);
+  for (let i = 0; i < 5; ++i) {
+    t.true(qm.start(), `job ${i + 1} within the reduced rate`);
+    qm.end();
+  }
+  t.false(qm.start(), 'the reduced rate is 5 per 100 ms');
+
+  await sleep(100);
+  t.is(qm.rateScale, 0.75, 'recovers additively');
+  await sleep(100);
+  t.is(qm.rateScale, 1, 'back to the full rate');
+});
+
+test('a rate that never recovers is full until the first throttle', t => {
+  const quota: Quota = { rate: 5, interval: 1000, adaptive: { increase: 0 } };
+  const qm = new QuotaManager(quota);
+  t.is(qm.rateScale, 1);
+  t.true(qm.start());
+  qm.end();
+
+  qm.throttle();
+  t.is(qm.rateScale, 0.5, 'stays backed off');
+});
+
+test('reports when the next invocation will be allowed', t => {
+  const qm = new QuotaManager({ interval: 500, rate: 2 });
+  const start = Date.now();
+  t.true(qm.availableAt() <= Date.now());
+
+  qm.start();
+  qm.end();
+  qm.start();
+  qm.end();
+  const availableAt = qm.availableAt();
+  t.true(availableAt > start + 500 && availableAt <= Date.now() + 501);
+  t.false(qm.start());
+});
+
+test('the rate history is restored from a snapshot', async t => {
+  const quota: Quota = { interval: 300, rate: 3 };
+  const store = memoryStore();
+  const qm1 = new QuotaManager(quota, { store });
+  t.true(qm1.start());
+  t.true(qm1.start());
+  await qm1.saveSnapshot();
+
+  // the restarted process knows about the earlier calls
+  const qm2 = new QuotaManager(quota, { store });
+  t.true(qm2.start());
+  t.false(qm2.start(), 'the quota of 3 per 300 ms was used up before the restart');
+
+  await sleep(310);
+  const qm3 = new QuotaManager(quota, { store });
+  t.true(qm3.isIdle, 'expired invocations are dropped');
+});
+
+test('token buckets are restored from a snapshot', async t => {
+  const quota: Quota = { interval: 1000, rate: 10, algorithm: 'token-bucket' };
+  const store = memoryStore();
+  const qm1 = new QuotaManager(quota, { store });
+  t.true(qm1.start(8));
+  await qm1.saveSnapshot();
+
+  const qm2 = new QuotaManager(quota, { store });
+  t.true(qm2.start(2));
+  t.false(qm2.start(2), 'the bucket was nearly empty before the restart');
+});
+
+test('a snapshot can be loaded asynchronously', async t => {
+  const quota: Quota = { interval: 1000, rate: 2 };
+  const saved = new QuotaManager(quota);
+  saved.start(2);
+  const store: QuotaStore = {
+    load: async () => saved.snapshot(),
+    save: async () => undefined
+  };
+
+  const qm = new QuotaManager(quota, { store });
+  await sleep(0);
+  t.false(qm.start());
+});
+
+test('snapshots are saved periodically', async t => {
+  const store = memoryStore();
+  const quota: Quota = { interval: 1000, rate: 5 };
+  const qm = new QuotaManager(quota, { store, snapshotInterval: 50 });
+  qm.start();
+  await sleep(80);
+  t.is(store.snapshot.windows[0].history.length, 1);
+});
+
+test('closing saves a final snapshot and stops saving', async t => {
+  const store = memoryStore();
+  const quota: Quota = { interval: 1000, rate: 5 };
+  const qm = new QuotaManager(quota, { store, snapshotInterval: 50 });
+  qm.start();
+  await qm.close();
+  t.is(store.snapshot.windows[0].history.length, 1);
+
+  qm.start();
+  await sleep(80);
+  t.is(store.snapshot.windows[0].history.length, 1, 'no snapshots after closing');
+});
+
+test('FileQuotaStore keeps the snapshot in a file', async t => {
+  const file = path.join(os.tmpdir(), `p-ratelimit-${uniqueId()}.json`);
+  const store = new FileQuotaStore(file);
+  t.is(store.load(), undefined, 'no snapshot yet');
+
+  try {
+    const qm1 = new QuotaManager({ interval: 1000, rate: 1 }, { store });
+    qm1.start();
+    await qm1.saveSnapshot();
+
+    const qm2 = new QuotaManager({ interval: 1000, rate: 1 }, { store });
+    t.false(qm2.start());
+  } finally {
+    fs.unlinkSync(file);
+  }
+});
+
+test('fixed windows reset exactly at the boundary', async t => {
+  const clock = new VirtualClock(Date.parse('2024-01-01T00:00:30Z'));
+  const quota: Quota = { interval: 60000, rate: 2, algorithm: 'fixed-window' };
+  const qm = new QuotaManager(quota, { clock });
+
+  t.true(qm.start(2));
+  t.false(qm.start());
+  t.is(qm.nextReset(), Date.parse('2024-01-01T00:01:00Z'));
+  t.is(qm.waitTime(), 30000);
+
+  await clock.advance(29999);
+  t.false(qm.start(), 'still in the same UTC minute');
+  await clock.advance(1);
+  t.true(qm.start(2), 'the whole rate is available in the next minute');
+  t.is(qm.nextReset(), Date.parse('2024-01-01T00:02:00Z'));
+});
+
+test('fixed windows can be aligned to a UTC offset', t => {
+  // 23:59 on Dec 31 in Pacific Standard Time
+  const clock = new VirtualClock(Date.parse('2024-01-01T07:59:00Z'));
+  const day = 24 * 60 * 60 * 1000;
+  const qm = new QuotaManager(
+    { interval: day, rate: 50000, algorithm: 'fixed-window', utcOffset: -480 },
+    { clock }
+  );
+  t.is(qm.nextReset(), Date.parse('2024-01-01T08:00:00Z'));
+});
+
+test('fixed windows can follow a time zone’s calendar days', t => {
+  const day = 24 * 60 * 60 * 1000;
+  const quota: Quota = {
+    interval: day,
+    rate: 50000,
+    algorithm: 'fixed-window',
+    timeZone: 'America/Los_Angeles'
+  };
+
+  const summer = new VirtualClock(Date.parse('2024-07-01T12:00:00Z'));
+  t.is(
+    new QuotaManager(quota, { clock: summer }).nextReset(),
+    Date.parse('2024-07-02T07:00:00Z'),
+    'midnight Pacific Daylight Time'
+  );
+
+  // daylight saving time starts during March 10, a 23-hour day
+  const dst = new VirtualClock(Date.parse('2024-03-10T09:00:00Z'));
+  t.is(
+    new QuotaManager(quota, { clock: dst }).nextReset(),
+    Date.parse('2024-03-11T07:00:00Z')
+  );
+
+  t.is(new QuotaManager({ interval: 1000, rate: 1 }).nextReset(), undefined);
+  t.throws(
+    () => new QuotaManager(Object.assign({}, quota, { timeZone: 'Nowhere/Special' })),
+    { message: /unknown timeZone/ }
+  );
+});
+
+test('the rate limiter starts waiting calls when the fixed window resets', async t => {
+  const clock = new VirtualClock(Date.parse('2024-01-01T00:00:45Z'));
+  const limit = pRateLimit(
+    { interval: 60000, rate: 2, algorithm: 'fixed-window' },
+    { clock }
+  );
+  const starts: number[] = [];
+  const calls = [1, 2, 3].map(() => limit(async () => starts.push(clock.now())));
+
+  await clock.advance(15000);
+  await Promise.all(calls);
+  const start = Date.parse('2024-01-01T00:00:45Z');
+  t.deepEqual(starts, [start, start, Date.parse('2024-01-01T00:01:00Z')]);
+});
+
+test('fixed windows are restored only within the same window', t => {
+  const clock = new VirtualClock(Date.parse('2024-01-01T00:00:10Z'));
+  const quota: Quota = { interval: 60000, rate: 3, algorithm: 'fixed-window' };
+  const store = memoryStore();
+  const qm1 = new QuotaManager(quota, { clock, store });
+  qm1.start(3);
+  store.save(qm1.snapshot());
+
+  t.false(new QuotaManager(quota, { clock, store }).start());
+  const later = new VirtualClock(Date.parse('2024-01-01T00:01:10Z'));
+  t.true(new QuotaManager(quota, { clock: later, store }).start(3));
+});
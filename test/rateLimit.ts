@@ -2,8 +2,21 @@ import test from 'ava';
 import * as redis from 'fakeredis';
 import { RedisClientType, RedisDefaultModules, RedisFunctions, RedisScripts } from 'redis';
 import * as td from 'testdouble';
-import { Quota, QuotaManager, RedisQuotaManager } from '../src';
+import {
+  CancelledEvent,
+  Clock,
+  QueueClearedError,
+  QueueFullError,
+  Quota,
+  QuotaManager,
+  RedisQuotaManager,
+  systemClock,
+  ThrottledError,
+  VirtualClock
+} from '../src';
+import { ExecutionTimeoutError } from '../src/executionTimeoutError';
 import { pRateLimit } from '../src/rateLimit';
+import { RateLimitAbortError } from '../src/rateLimitAbortError';
 import { RateLimitTimeoutError } from '../src/rateLimitTimeoutError';
 import { sleep, uniqueId } from '../src/util';
 
@@ -270,6 +283,154 @@ test('Continues running the queue after a maxDelay timeout', async t => {
   await t.throwsAsync(fn3, { instanceOf: RateLimitTimeoutError });
 });
 
+test('aborting a queued API call removes it from the queue', async t => {
+  const quota: Quota = { concurrency: 1, maxDelay: 1000 };
+  const quotaManager = new QuotaManager(quota);
+  const rateLimit = pRateLimit(quotaManager);
+
+  const api = mockApi(200);
+  const controller = new AbortController();
+
+  const fn1 = rateLimit(() => api());
+  const fn2 = rateLimit(() => api(), { signal: controller.signal });
+  const fn3 = rateLimit(() => api());
+
+  controller.abort();
+
+  await t.throwsAsync(fn2, { instanceOf: RateLimitAbortError });
+  await t.notThrowsAsync(fn1);
+  await t.notThrowsAsync(fn3);
+  t.is(api['runCount'], 2, 'the aborted call never ran');
+  t.is(quotaManager.activeCount, 0);
+});
+
+test('an already-aborted signal rejects without queueing', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 });
+  const api = mockApi(200);
+  const controller = new AbortController();
+  controller.abort();
+
+  await t.throwsAsync(
+    rateLimit(() => api(), { signal: controller.signal }),
+    { instanceOf: RateLimitAbortError }
+  );
+  t.is(api['runCount'], 0);
+});
+
+test('the signal is passed to a running API call', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 });
+  const controller = new AbortController();
+
+  const promise = rateLimit(
+    signal =>
+      new Promise<string>((resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('stopped')));
+      }),
+    { signal: controller.signal }
+  );
+
+  await sleep(50);
+  controller.abort();
+
+  await t.throwsAsync(promise, { message: 'stopped' });
+});
+
+test('a maxDelay timeout frees the concurrency slot it was queued for', async t => {
+  const quota: Quota = { concurrency: 1, maxDelay: 100 };
+  const quotaManager = new QuotaManager(quota);
+  const rateLimit = pRateLimit(quotaManager);
+
+  const api = mockApi(300);
+
+  const fn1 = rateLimit(() => api());
+  const fn2 = rateLimit(() => api());
+
+  await t.throwsAsync(fn2, { instanceOf: RateLimitTimeoutError });
+  await t.notThrowsAsync(fn1);
+  t.is(quotaManager.activeCount, 0);
+  await t.notThrowsAsync(rateLimit(() => api()));
+});
+
+test('queued calls run in priority order', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 }, { priorityLanes: { urgent: 5 } });
+  const order: string[] = [];
+  const record = (name: string) => async () => {
+    order.push(name);
+    await sleep(10);
+  };
+
+  await Promise.all([
+    rateLimit(record('first')),
+    rateLimit(record('low'), { priority: 'low' }),
+    rateLimit(record('normal 1')),
+    rateLimit(record('high'), { priority: 'high' }),
+    rateLimit(record('normal 2'), { priority: 0 }),
+    rateLimit(record('urgent'), { priority: 'urgent' })
+  ]);
+
+  t.deepEqual(order, ['first', 'urgent', 'high', 'normal 1', 'normal 2', 'low']);
+});
+
+test('an unknown priority lane is rejected', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 });
+  await t.throwsAsync(
+    rateLimit(() => Promise.resolve(), { priority: 'nope' }),
+    { message: /Unknown priority lane/ }
+  );
+});
+
+test('a priority that isn’t a finite number is rejected', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 });
+  for (const priority of [NaN, Infinity]) {
+    await t.throwsAsync(rateLimit(() => Promise.resolve(), { priority }), {
+      instanceOf: RangeError,
+      message: /Invalid API call priority/
+    });
+  }
+  t.is(rateLimit.queued, 0);
+});
+
+test('weighted calls wait until the window has room for them', async t => {
+  const quota: Quota = { interval: 500, rate: 10 };
+  const rateLimit = pRateLimit(quota);
+  const api = mockApi(50);
+
+  const startTime = Date.now();
+  await rateLimit(() => api(), { cost: 4 });
+  await rateLimit(() => api(), { cost: 4 });
+  const small = rateLimit(() => api());
+  const big = rateLimit(() => api(), { cost: 10 });
+
+  await small;
+  t.true(Date.now() - startTime < 400, 'a small call still fits the window');
+  await big;
+  t.true(Date.now() - startTime >= 500, 'a big call waits for the window to empty');
+});
+
+test('a window that frees up while a call is being checked doesn’t strand it', async t => {
+  // every read of the clock moves it 1 ms, so the window can free up between the
+  // rate limiter’s checks
+  let time = 0;
+  const clock: Clock = Object.assign({}, systemClock, { now: () => ++time });
+
+  for (let interval = 5; interval < 25; interval++) {
+    const rateLimit = pRateLimit({ interval, rate: 1 }, { clock });
+    const calls = [1, 2, 3].map(() => rateLimit(async () => undefined));
+    const timeout = sleep(1000).then(() => 'stranded');
+    t.not(await Promise.race([Promise.all(calls), timeout]), 'stranded', `${interval}`);
+  }
+});
+
+test('calls that cost more than the quota are rejected', async t => {
+  const rateLimit = pRateLimit({ interval: 500, rate: 10 });
+  const api = mockApi(50);
+
+  await t.throwsAsync(rateLimit(() => api(), { cost: 11 }), { instanceOf: RangeError });
+  await t.throwsAsync(rateLimit(() => api(), { cost: -1 }), { instanceOf: RangeError });
+  await t.notThrowsAsync(rateLimit(() => api(), { cost: 10 }));
+  t.is(api['runCount'], 1);
+});
+
 test.serial('Passing no quota is a no-op', async t => {
   const consoleWarn = td.replace(console, 'warn');
   try {
@@ -316,3 +477,407 @@ test('Using an empty quota is a no-op', async t => {
 
   await t.notThrowsAsync(Promise.all(promises));
 });
+
+test('token-bucket quotas work with pRateLimit', async t => {
+  const quota: Quota = { algorithm: 'token-bucket', interval: 500, rate: 5, burst: 2 };
+  const rateLimit = pRateLimit(quota);
+  const api = mockApi(10);
+
+  const startTime = Date.now();
+  await Promise.all([rateLimit(() => api()), rateLimit(() => api())]);
+  t.true(Date.now() - startTime < 90, 'the burst runs right away');
+  await rateLimit(() => api());
+  t.true(Date.now() - startTime >= 90, 'then calls wait for a token');
+});
+
+test('stacked windows are all enforced', async t => {
+  const quota: Quota = {
+    windows: [
+      { interval: 100, rate: 2 },
+      { interval: 400, rate: 3 }
+    ]
+  };
+  const rateLimit = pRateLimit(quota);
+  const api = mockApi(10);
+
+  const startTime = Date.now();
+  const times: number[] = [];
+  const timed = () => api().then(() => times.push(Date.now() - startTime));
+
+  await Promise.all([
+    rateLimit(timed),
+    rateLimit(timed),
+    rateLimit(timed),
+    rateLimit(timed)
+  ]);
+
+  t.true(times[1] < 90, 'first two calls run right away');
+  t.true(times[2] >= 100 && times[2] < 390, 'third call waits for the short window');
+  t.true(times[3] >= 400, 'fourth call waits for the long window');
+});
+
+test('the rate limiter reports queued and active calls', async t => {
+  const rateLimit = pRateLimit({ concurrency: 2 });
+  const api = mockApi(100);
+
+  t.is(rateLimit.queued, 0);
+  t.is(rateLimit.active, 0);
+
+  const promises = [
+    rateLimit(() => api()),
+    rateLimit(() => api()),
+    rateLimit(() => api())
+  ];
+  t.is(rateLimit.active, 2);
+  t.is(rateLimit.queued, 1);
+
+  await rateLimit.onEmpty();
+  t.is(rateLimit.queued, 0);
+  t.is(rateLimit.active, 2, 'the last call started when the queue emptied');
+
+  await rateLimit.onIdle();
+  t.is(rateLimit.active, 0);
+  t.is(api['fulfillCount'], 3);
+  await Promise.all(promises);
+  await t.notThrowsAsync(rateLimit.onIdle(), 'resolves right away when already idle');
+});
+
+test('a paused rate limiter queues calls until it’s resumed', async t => {
+  const rateLimit = pRateLimit({ concurrency: 2 });
+  const api = mockApi(10);
+
+  rateLimit.pause();
+  t.true(rateLimit.isPaused);
+  const promise = rateLimit(() => api());
+  await sleep(150);
+  t.is(api['runCount'], 0, 'nothing runs while paused');
+  t.is(rateLimit.queued, 1);
+
+  rateLimit.resume();
+  t.false(rateLimit.isPaused);
+  await promise;
+  t.is(api['fulfillCount'], 1);
+});
+
+test('clearing the queue rejects queued calls', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 });
+  const api = mockApi(100);
+
+  const running = rateLimit(() => api());
+  const queued1 = rateLimit(() => api());
+  const queued2 = rateLimit(() => api());
+
+  rateLimit.clearQueue('vendor maintenance');
+
+  await t.throwsAsync(queued1, { instanceOf: QueueClearedError, message: /maintenance/ });
+  await t.throwsAsync(queued2, { instanceOf: QueueClearedError });
+  await t.notThrowsAsync(running, 'running calls are not affected');
+  t.is(api['runCount'], 1);
+  t.is(rateLimit.queued, 0);
+});
+
+test('a full queue rejects new calls', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 }, { maxQueueSize: 2 });
+  const api = mockApi(100);
+  const cancelled: CancelledEvent[] = [];
+  rateLimit.on('cancelled', e => cancelled.push(e));
+
+  const calls = [1, 2, 3, 4].map(() => rateLimit(() => api()));
+
+  await t.throwsAsync(calls[3], { instanceOf: QueueFullError, message: /rejected/ });
+  await t.notThrowsAsync(Promise.all(calls.slice(0, 3)));
+  t.is(api['runCount'], 3);
+  t.is(cancelled.length, 1, 'the rejection is reported');
+  t.true(cancelled[0].error instanceof QueueFullError);
+});
+
+test.serial('a retried call doesn’t overflow a full queue', async t => {
+  // a 25ms backoff: the retry comes after the queue has filled up
+  td.replace(Math, 'random', () => 0.5);
+  try {
+    const rateLimit = pRateLimit(
+      { concurrency: 1 },
+      { maxQueueSize: 1, retry: { backoffBase: 50 } }
+    );
+    const api = mockApi(200);
+
+    const failing = rateLimit(() => api(new Error('oops')));
+    const running = rateLimit(() => api());
+    await sleep(10);
+    const queued = rateLimit(() => api());
+
+    await t.throwsAsync(failing, { instanceOf: QueueFullError, message: /retried/ });
+    t.is(rateLimit.queued, 1);
+    await t.notThrowsAsync(Promise.all([running, queued]));
+  } finally {
+    td.reset();
+  }
+});
+
+test('a full queue can drop the oldest call', async t => {
+  const rateLimit = pRateLimit(
+    { concurrency: 1 },
+    { maxQueueSize: 2, overflow: 'drop-oldest' }
+  );
+  const api = mockApi(100);
+
+  const calls = [1, 2, 3, 4].map(() => rateLimit(() => api()));
+
+  await t.throwsAsync(calls[1], { instanceOf: QueueFullError, message: /oldest/ });
+  await t.notThrowsAsync(Promise.all([calls[0], calls[2], calls[3]]));
+  t.is(api['runCount'], 3);
+});
+
+test('a full queue can drop the newest call', async t => {
+  const rateLimit = pRateLimit(
+    { concurrency: 1 },
+    { maxQueueSize: 2, overflow: 'drop-newest' }
+  );
+  const api = mockApi(100);
+
+  const calls = [1, 2, 3, 4].map(() => rateLimit(() => api()));
+
+  await t.throwsAsync(calls[2], { instanceOf: QueueFullError, message: /newest/ });
+  await t.notThrowsAsync(Promise.all([calls[0], calls[1], calls[3]]));
+  t.is(api['runCount'], 3);
+});
+
+test('timers keep Node running only while calls are waiting', async t => {
+  const clock = new VirtualClock();
+  const timers: { delay: number; unrefd: boolean }[] = [];
+  const setTimeout = clock.setTimeout.bind(clock);
+  clock.setTimeout = (fn: () => void, delay: number) => {
+    const timer = setTimeout(fn, delay);
+    const record = { delay, unrefd: false };
+    timers.push(record);
+    timer.unref = () => {
+      record.unrefd = true;
+      return timer;
+    };
+    return timer;
+  };
+  const rateLimit = pRateLimit({ interval: 200, rate: 1 }, { clock, timeout: 1000 });
+
+  const first = rateLimit(async () => undefined);
+  const second = rateLimit(async () => undefined);
+  await clock.advance(500);
+  await Promise.all([first, second]);
+
+  t.deepEqual(timers, [
+    { delay: 1000, unrefd: true },
+    { delay: 201, unrefd: false },
+    { delay: 1000, unrefd: true }
+  ]);
+});
+
+test('calls that run too long time out', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 }, { timeout: 100 });
+  let aborted = false;
+
+  const start = Date.now();
+  const hung = rateLimit(async signal => {
+    signal.addEventListener('abort', () => (aborted = true));
+    await sleep(300);
+  });
+  const next = rateLimit(async () => Date.now() - start);
+
+  await t.throwsAsync(hung, { instanceOf: ExecutionTimeoutError });
+  t.true(aborted);
+  t.true(Date.now() - start < 200);
+
+  // the hung call keeps its concurrency slot until it settles
+  t.true((await next) >= 300);
+});
+
+test('timed-out calls can release their slot right away', async t => {
+  const rateLimit = pRateLimit(
+    { concurrency: 1 },
+    { timeout: 100, releaseOnTimeout: true }
+  );
+
+  const start = Date.now();
+  const hung = rateLimit(() => sleep(300));
+  const next = rateLimit(async () => Date.now() - start);
+
+  await t.throwsAsync(hung, { instanceOf: ExecutionTimeoutError });
+  t.true((await next) < 200);
+});
+
+test('the timeout can be set per call', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 }, { timeout: 100 });
+
+  await t.notThrowsAsync(rateLimit(() => sleep(150), { timeout: 300 }));
+  await t.throwsAsync(rateLimit(() => sleep(150)), { instanceOf: ExecutionTimeoutError });
+});
+
+test('lifecycle events are emitted', async t => {
+  const quota: Quota = { concurrency: 1, maxDelay: 150 };
+  const rateLimit = pRateLimit(quota);
+  const api = mockApi(100);
+  const events: [string, any][] = [];
+  ['enqueued', 'started', 'settled', 'timed-out'].forEach((name: any) =>
+    rateLimit.on(name, (e: any) => events.push([name, e]))
+  );
+
+  const fn1 = rateLimit(() =>
+    sleep(100).then(() => {
+      throw new Error('oops');
+    })
+  );
+  const fn2 = rateLimit(() => api());
+  const fn3 = rateLimit(() => api(), { cost: 1, priority: 'low' });
+
+  await t.throwsAsync(fn1);
+  await t.notThrowsAsync(fn2);
+  await t.throwsAsync(fn3, { instanceOf: RateLimitTimeoutError });
+
+  t.deepEqual(
+    events.map(([name, e]) => `${name} ${e.id}`),
+    [
+      'enqueued 1',
+      'started 1',
+      'enqueued 2',
+      'enqueued 3',
+      'settled 1',
+      'started 2',
+      'timed-out 3',
+      'settled 2'
+    ]
+  );
+  const [, enqueued] = events[3];
+  t.is(enqueued.priority, -1);
+  t.is(enqueued.queued, 2);
+  const [, settled1] = events[4];
+  t.is(settled1.outcome, 'rejected');
+  t.is(settled1.error.message, 'oops');
+  const [, started2] = events[5];
+  t.true(started2.waitTime >= 0);
+  const [, timedOut] = events[6];
+  t.true(timedOut.waitTime >= 140);
+  t.true(timedOut.error instanceof RateLimitTimeoutError);
+  const [, settled2] = events[7];
+  t.is(settled2.outcome, 'fulfilled');
+  t.true(settled2.duration >= 90);
+});
+
+test('cancelled calls emit an event', async t => {
+  const rateLimit = pRateLimit({ concurrency: 1 });
+  const api = mockApi(50);
+  const cancelled: any[] = [];
+  rateLimit.on('cancelled', e => cancelled.push(e));
+
+  const fn1 = rateLimit(() => api());
+  const fn2 = rateLimit(() => api());
+  rateLimit.clearQueue();
+
+  await t.throwsAsync(fn2, { instanceOf: QueueClearedError });
+  await fn1;
+  t.is(cancelled.length, 1);
+  t.true(cancelled[0].error instanceof QueueClearedError);
+});
+
+test('throttled calls back off and go back to the front of the queue', async t => {
+  const quota: Quota = { interval: 1000, rate: 10, concurrency: 1 };
+  const quotaManager = new QuotaManager(quota);
+  const rateLimit = pRateLimit(quotaManager);
+  const order: string[] = [];
+  const throttled: any[] = [];
+  rateLimit.on('throttled', e => throttled.push(e));
+
+  let attempts = 0;
+  const flaky = async () => {
+    order.push(`flaky ${++attempts}`);
+    if (attempts === 1) {
+      throw new ThrottledError('429 Too Many Requests', 100);
+    }
+    return 'ok';
+  };
+  const other = async () => {
+    order.push('other');
+  };
+
+  const startTime = Date.now();
+  const results = await Promise.all([rateLimit(flaky), rateLimit(other)]);
+
+  t.is(results[0], 'ok');
+  t.deepEqual(order, ['flaky 1', 'flaky 2', 'other']);
+  t.true(Date.now() - startTime >= 100, 'paused for retryAfter');
+  t.is(throttled.length, 1);
+  t.is(throttled[0].retryAfter, 100);
+  t.is(quotaManager.rateScale, 0.5);
+});
+
+test('rejected calls are retried according to the retry policy', async t => {
+  const retry = {
+    maxAttempts: 3,
+    backoffBase: 20,
+    shouldRetry: (err: Error) => err.message !== 'fatal'
+  };
+  const quotaManager = new QuotaManager({ interval: 1000, rate: 10 });
+  const rateLimit = pRateLimit(quotaManager, { retry });
+  const retrying: any[] = [];
+  rateLimit.on('retrying', e => retrying.push(e));
+
+  let attempts = 0;
+  const result = await rateLimit(async () => {
+    if (++attempts < 3) {
+      throw new Error('transient');
+    }
+    return attempts;
+  });
+
+  t.is(result, 3);
+  t.deepEqual(retrying.map(e => e.attempt), [1, 2]);
+  t.true(retrying.every(e => e.delay >= 0 && e.delay <= 40), 'full jitter, capped');
+  t.false(quotaManager.start(8), 'each attempt used quota');
+
+  const fatal = mockApi(10);
+  await t.throwsAsync(rateLimit(() => fatal(new Error('fatal'))), { message: 'fatal' });
+  t.is(fatal['runCount'], 1, 'shouldRetry can refuse a retry');
+});
+
+test('calls give up after maxAttempts', async t => {
+  const rateLimit = pRateLimit({ concurrency: 2 }, { retry: { backoffBase: 10 } });
+  const api = mockApi(10);
+
+  await t.throwsAsync(rateLimit(() => api(new Error('oops'))), { message: 'oops' });
+  t.is(api['runCount'], 3, 'tried 3 times by default');
+
+  await t.throwsAsync(rateLimit(() => api(new Error('oops')), { retry: false }));
+  t.is(api['runCount'], 4, 'retries can be disabled per call');
+});
+
+test('maxDelay applies across all attempts', async t => {
+  const quota: Quota = { concurrency: 1, maxDelay: 150 };
+  const retry = { maxAttempts: 10, backoffBase: 1000, backoffCap: 1000 };
+  const rateLimit = pRateLimit(quota, { retry });
+  const api = mockApi(50);
+
+  const startTime = Date.now();
+  await t.throwsAsync(rateLimit(() => api(new Error('oops'))));
+  t.true(Date.now() - startTime < 1000, 'gave up instead of waiting');
+  t.true(api['runCount'] < 10);
+});
+
+test.serial('calls waiting to be retried are pending', async t => {
+  td.replace(Math, 'random', () => 0.5);
+  try {
+    const rateLimit = pRateLimit({ concurrency: 1 }, { retry: { backoffBase: 200 } });
+    let attempts = 0;
+    const promise = rateLimit(async () => {
+      if (++attempts === 1) {
+        throw new Error('transient');
+      }
+    });
+
+    await sleep(10);
+    t.is(rateLimit.active, 0);
+    t.is(rateLimit.queued, 1, 'waiting to be retried');
+    rateLimit.clearQueue();
+    await t.throwsAsync(promise, { instanceOf: QueueClearedError });
+    t.is(attempts, 1);
+    await t.notThrowsAsync(rateLimit.onIdle());
+  } finally {
+    td.reset();
+  }
+});
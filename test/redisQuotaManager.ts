@@ -1,11 +1,17 @@
 import * as redis from 'fakeredis';
 
-import { Quota, RedisQuotaManager } from '../src';
-import { sleep, uniqueId } from '../src/util';
+import {
+  ConnectionStateEvent,
+  Quota,
+  QuotaChangedEvent,
+  RedisQuotaManager
+} from '../src';
+import { promisify, sleep, uniqueId } from '../src/util';
 
 import { RedisClientType, RedisDefaultModules, RedisFunctions, RedisScripts } from 'redis';
 import * as IORedis from 'ioredis';
 import test from 'ava';
+import * as td from 'testdouble';
 
 type RedisCompatibleClient = RedisClientType<RedisDefaultModules, RedisFunctions, RedisScripts> | IORedis.Redis | IORedis.Cluster;
 
@@ -122,6 +128,61 @@ test('separate Redis quota managers coordinate', async t => {
   t.deepEqual(actualQuota1, expectedQuota, 'client 1 has the correct quota');
   const actualQuota2 = qm2.quota;
   t.deepEqual(actualQuota2, expectedQuota, 'client 2 has the correct quota');
+  t.is(qm1.peerCount, 2, 'client 1 knows about both clients');
+});
+
+test('Redis quota managers split the quota by weight', async t => {
+  const quota: Quota = { rate: 8, interval: 500, concurrency: 4 };
+  const channelName = uniqueId();
+  const qm1 = new RedisQuotaManager(quota, channelName, getRedisClients(), { weight: 3 });
+  // a peer with no share options sends a plain id, which counts as weight 1
+  const qm2 = new RedisQuotaManager(quota, channelName, getRedisClients());
+
+  await Promise.all([waitForReady(qm1), waitForReady(qm2)]);
+
+  t.is(qm1.share, 0.75);
+  t.deepEqual(qm1.quota, { rate: 6, interval: 500, concurrency: 3 });
+  t.is(qm2.share, 0.25);
+  t.deepEqual(qm2.quota, { rate: 2, interval: 500, concurrency: 1 });
+});
+
+test('a Redis quota manager’s share can be capped', async t => {
+  const quota: Quota = { rate: 8, interval: 500 };
+  const channelName = uniqueId();
+  const qm1 = new RedisQuotaManager(quota, channelName, getRedisClients(), {
+    maxShare: 0.25
+  });
+  const qm2 = new RedisQuotaManager(quota, channelName, getRedisClients(), {
+    heartbeatInterval: 10000
+  });
+
+  await Promise.all([waitForReady(qm1), waitForReady(qm2)]);
+
+  t.is(qm1.quota.rate, 2);
+  t.is(qm2.quota.rate, 6);
+});
+
+test('Redis quota managers can share the quota by demand', async t => {
+  const quota: Quota = { rate: 10, interval: 1000 };
+  const channelName = uniqueId();
+  const options = { rebalanceInterval: 300, demandFloor: 0.2 };
+  const qm1 = new RedisQuotaManager(quota, channelName, getRedisClients(), options);
+  const qm2 = new RedisQuotaManager(quota, channelName, getRedisClients(), options);
+
+  await Promise.all([waitForReady(qm1), waitForReady(qm2)]);
+  t.is(qm1.quota.rate, 5);
+
+  qm1.setQueueDepth(8);
+  let maxTotal = 0;
+  for (let i = 0; i < 30; i++) {
+    maxTotal = Math.max(maxTotal, qm1.quota.rate + qm2.quota.rate);
+    await sleep(50);
+  }
+
+  // the idle server keeps its floor of 20% of an even split
+  t.is(qm1.quota.rate, 9);
+  t.is(qm2.quota.rate, 1);
+  t.true(maxTotal <= 10, 'the total never exceeds the channel quota');
 });
 
 test('Redis quota can be updated', async t => {
@@ -160,6 +221,139 @@ test('Redis quota can be updated', async t => {
   t.deepEqual(actualQuota3, expectedQuota, 'client 3 quota should be updated');
 });
 
+test('a closed Redis quota manager leaves the pool right away', async t => {
+  const quota: Quota = { rate: 4, interval: 500, concurrency: 2 };
+  const channelName = uniqueId();
+  const qm1 = new RedisQuotaManager(quota, channelName, getRedisClients());
+  const qm2 = new RedisQuotaManager(quota, channelName, getRedisClients());
+
+  await Promise.all([waitForReady(qm1), waitForReady(qm2)]);
+  t.is(qm1.quota.rate, 2);
+
+  await qm2.close();
+  await sleep(100);
+  t.is(qm1.peerCount, 1);
+  t.is(qm1.quota.rate, 4);
+  t.is(qm1.quota.concurrency, 2);
+
+  await t.notThrowsAsync(qm2.close(), 'closing twice is harmless');
+});
+
+test('bare ids from older peers count as peers', async t => {
+  const quota: Quota = { rate: 4, interval: 500 };
+  const channelName = uniqueId();
+  const clients = getRedisClients() as any[];
+  const qm = new RedisQuotaManager(quota, channelName, clients);
+  await sleep(100);
+
+  clients[0].publish(`ratelimit-${channelName}`, JSON.stringify(uniqueId()));
+  await waitForReady(qm);
+
+  t.is(qm.peerCount, 2);
+  t.is(qm.quota.rate, 2);
+});
+
+test('older peers hear only bare ids', async t => {
+  const quota: Quota = { rate: 4, interval: 500 };
+  const channelName = uniqueId();
+  // an older server answers every id it hasn’t seen with its own
+  const [oldClient, oldPubSubClient] = getRedisClients() as any[];
+  const oldId = uniqueId();
+  const heard: string[] = [];
+  oldPubSubClient.on('message', (channel, message) => {
+    if (heard.indexOf(message) === -1) {
+      oldClient.publish(channel, JSON.stringify(oldId));
+    }
+    heard.push(message);
+  });
+  await promisify(oldPubSubClient.subscribe.bind(oldPubSubClient))(
+    `ratelimit-${channelName}`
+  );
+
+  const qm1 = new RedisQuotaManager(quota, channelName, getRedisClients());
+  const qm2 = new RedisQuotaManager(quota, channelName, getRedisClients());
+  await Promise.all([waitForReady(qm1), waitForReady(qm2)]);
+
+  t.is(qm1.peerCount, 3);
+  t.is(qm2.peerCount, 3);
+  t.true(heard.every(message => typeof JSON.parse(message) === 'string'));
+  t.is(new Set(heard).size, 3, 'every server’s id');
+});
+
+test.serial('a message that can’t be published is logged', async t => {
+  const consoleError = td.replace(console, 'error');
+  const quota: Quota = { rate: 4, interval: 500 };
+  const clients = getRedisClients() as any[];
+  clients[0].publish = () => Promise.reject(new Error('Connection is closed.'));
+  const qm = new RedisQuotaManager(quota, uniqueId(), clients, { discoveryTime: 50 });
+
+  try {
+    await waitForReady(qm);
+    t.true(qm.ready);
+    td.verify(consoleError(td.matchers.contains('Could not publish')));
+  } finally {
+    await qm.close();
+    td.reset();
+  }
+});
+
+test('invalid messages on the channel are counted and reported', async t => {
+  const quota: Quota = { rate: 4, interval: 500 };
+  const channelName = uniqueId();
+  const clients = getRedisClients() as any[];
+  const invalid: string[] = [];
+  const qm = new RedisQuotaManager(quota, channelName, clients, {
+    onInvalidMessage: message => invalid.push(message)
+  });
+  await waitForReady(qm);
+
+  clients[0].publish(`ratelimit-${channelName}`, 'not json');
+  clients[0].publish(`ratelimit-${channelName}`, JSON.stringify('hello'));
+  await sleep(100);
+
+  t.is(qm.invalidMessages, 2);
+  t.deepEqual(invalid, ['not json', '"hello"']);
+  t.is(qm.peerCount, 1);
+});
+
+test('a disconnected Redis quota manager falls back to its degraded mode', async t => {
+  const quota: Quota = { rate: 8, interval: 500, concurrency: 4 };
+  const channelName = uniqueId();
+  const clients = getRedisClients() as any[];
+  const qm1 = new RedisQuotaManager(quota, channelName, clients, {
+    degradedMode: 'fraction'
+  });
+  const qm2 = new RedisQuotaManager(quota, channelName, getRedisClients());
+  const events: ConnectionStateEvent[] = [];
+  qm1.on('connection-state', e => events.push(e));
+  await Promise.all([waitForReady(qm1), waitForReady(qm2)]);
+  t.is(qm1.quota.rate, 4);
+
+  clients[1].emit('end');
+  t.is(qm1.connectionState, 'disconnected');
+  t.deepEqual(qm1.quota, { rate: 2, interval: 500, concurrency: 1 });
+
+  clients[1].emit('ready');
+  await sleep(500);
+  t.is(qm1.connectionState, 'connected');
+  t.is(qm1.peerCount, 2, 'peers are rediscovered');
+  t.deepEqual(events.map(e => e.state), ['disconnected', 'connected']);
+
+  await sleep(3000);
+  t.is(qm1.quota.rate, 4);
+});
+
+test('a disconnected Redis quota manager can pause', async t => {
+  const quota: Quota = { rate: 8, interval: 500 };
+  const clients = getRedisClients() as any[];
+  const qm = new RedisQuotaManager(quota, uniqueId(), clients, { degradedMode: 'pause' });
+  await waitForReady(qm);
+
+  clients[1].emit('reconnecting');
+  t.false(qm.start());
+  t.is(qm.quota.concurrency, 0);
+});
+
 test('RedisQuotaManager has a zero concurrency quota before it’s ready', async t => {
   const clients = getRedisClients();
   const quota: Quota = { rate: 3, interval: 500, concurrency: 2 };
@@ -222,3 +416,23 @@ test('RedisQuotaManager with fastStart = true will process requests right away',
   );
   t.is(qm.quota.rate, Math.floor(quota.rate / 2), 'now has half the rate quota');
 });
+
+test('quota-changed is emitted when the quota is recalculated', async t => {
+  const quota: Quota = { rate: 4, interval: 500, concurrency: 2 };
+  const channelName = uniqueId();
+  const clients1 = getRedisClients();
+  const qm1: RedisQuotaManager = new RedisQuotaManager(quota, channelName, clients1);
+  const changes: QuotaChangedEvent[] = [];
+  qm1.on('quota-changed', e => changes.push(e));
+
+  await waitForReady(qm1);
+  t.is(changes.length, 1, 'became ready');
+  t.is(changes[0].previous.concurrency, 0);
+  t.is(changes[0].quota.concurrency, 2);
+
+  const clients2 = getRedisClients();
+  const qm2: RedisQuotaManager = new RedisQuotaManager(quota, channelName, clients2);
+  await waitForReady(qm2);
+  t.is(changes.length, 2, 'a peer joined');
+  t.is(changes[1].quota.rate, 2);
+});
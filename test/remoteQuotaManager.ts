@@ -0,0 +1,175 @@
+import {
+  pRateLimit,
+  Quota,
+  QuotaManager,
+  QuotaServer,
+  RemoteQuotaManager
+} from '../src';
+import { sleep } from '../src/util';
+
+import test from 'ava';
+import * as td from 'testdouble';
+import { MessageChannel, MessagePort } from 'worker_threads';
+
+/** Serve a quota to some workers, each over its own MessageChannel */
+function connect(quota: Quota, workers: number) {
+  const quotaManager = new QuotaManager(quota);
+  const server = new QuotaServer(quotaManager, 'test');
+  const ports: MessagePort[] = [];
+  const remotes: RemoteQuotaManager[] = [];
+  for (let i = 0; i < workers; i++) {
+    const { port1, port2 } = new MessageChannel();
+    server.serve(port1);
+    ports.push(port1, port2);
+    remotes.push(new RemoteQuotaManager(quota, 'test', port2));
+  }
+  const close = () => ports.forEach(p => p.close());
+  return { quotaManager, server, remotes, ports, close };
+}
+
+test('concurrency is exact across workers', async t => {
+  const { remotes, close } = connect({ concurrency: 2 }, 3);
+  const limits = remotes.map(qm => pRateLimit(qm));
+
+  let active = 0;
+  let maxActive = 0;
+  const api = async () => {
+    maxActive = Math.max(maxActive, ++active);
+    await sleep(50);
+    active--;
+  };
+
+  try {
+    await Promise.all([0, 1, 2, 3, 4, 5, 6, 7, 8].map(i => limits[i % 3](api)));
+    t.is(maxActive, 2);
+  } finally {
+    close();
+  }
+});
+
+test('the rate is exact across workers', async t => {
+  const { remotes, close } = connect({ interval: 300, rate: 3 }, 2);
+  const limits = remotes.map(qm => pRateLimit(qm));
+
+  try {
+    const start = Date.now();
+    const times: number[] = [];
+    const calls = [0, 1, 2, 3, 4, 5].map(i =>
+      limits[i % 2](async () => times.push(Date.now() - start))
+    );
+    await Promise.all(calls);
+
+    t.is(times.filter(time => time < 250).length, 3);
+    t.is(times.length, 6);
+  } finally {
+    close();
+  }
+});
+
+test('a worker that goes away releases its concurrency', async t => {
+  const { quotaManager, server, remotes, ports, close } = connect({ concurrency: 2 }, 2);
+
+  try {
+    t.true(await remotes[0].acquire());
+    t.true(await remotes[0].acquire());
+    t.false(await remotes[1].acquire(), 'the quota is full');
+    t.is(quotaManager.activeCount, 2);
+
+    // the first worker’s end of its channel closes, as if it crashed
+    ports[1].close();
+    await sleep(50);
+    t.is(server.channelCount, 1);
+    t.is(quotaManager.activeCount, 0);
+    t.true(await remotes[1].acquire());
+  } finally {
+    close();
+  }
+});
+
+test('ended invocations give back their concurrency', async t => {
+  const { quotaManager, remotes, close } = connect({ concurrency: 1 }, 1);
+
+  try {
+    t.true(await remotes[0].acquire());
+    remotes[0].end();
+    t.is(remotes[0].activeCount, 0);
+    t.true(await remotes[0].acquire());
+    t.is(quotaManager.activeCount, 1);
+  } finally {
+    close();
+  }
+});
+
+test('RemoteQuotaManager needs a channel to the server', t => {
+  t.throws(() => new RemoteQuotaManager({ concurrency: 1 }, 'test', {} as any), {
+    message: /no send\(\) or postMessage\(\)/
+  });
+  const { port1, port2 } = new MessageChannel();
+  const qm = new RemoteQuotaManager({ concurrency: 1 }, 'test', port1);
+  t.throws(() => qm.start(), { message: /acquire/ });
+  port1.close();
+});
+
+test.serial('a request the server doesn’t answer in time is given up', async t => {
+  const consoleError = td.replace(console, 'error');
+  const quotaManager = new QuotaManager({ concurrency: 1 });
+  const { port1, port2 } = new MessageChannel();
+  new QuotaServer(quotaManager, 'test').serve(port1);
+  const remote = new RemoteQuotaManager({ concurrency: 1 }, 'test', port2, {
+    requestTimeout: 50
+  });
+  // the server takes too long to decide
+  const acquire = quotaManager.acquire.bind(quotaManager);
+  quotaManager.acquire = async (cost = 1) => {
+    await sleep(75);
+    return acquire(cost);
+  };
+
+  try {
+    const start = Date.now();
+    t.false(await remote.acquire());
+    t.true(Date.now() - start < 75);
+    td.verify(consoleError(td.matchers.contains('no answer from the QuotaServer')));
+
+    await sleep(100);
+    t.is(quotaManager.activeCount, 0, 'the late answer was given back');
+  } finally {
+    port1.close();
+    td.reset();
+  }
+});
+
+test.serial('requests fail when the channel to the server closes', async t => {
+  const consoleError = td.replace(console, 'error');
+  const { port1, port2 } = new MessageChannel();
+  const remote = new RemoteQuotaManager({ concurrency: 1 }, 'test', port2);
+
+  try {
+    const start = Date.now();
+    const acquired = remote.acquire();
+    port1.close();
+    t.false(await acquired);
+    t.true(Date.now() - start < 1000, 'without waiting for the requestTimeout');
+    td.verify(consoleError(td.matchers.contains('QuotaServer was closed')));
+  } finally {
+    td.reset();
+  }
+});
+
+test.serial('the server answers even when its QuotaManager fails', async t => {
+  const consoleError = td.replace(console, 'error');
+  const { quotaManager, remotes, close } = connect({ concurrency: 1 }, 1);
+  quotaManager.acquire = () => {
+    throw new Error('oops');
+  };
+
+  try {
+    const start = Date.now();
+    t.false(await remotes[0].acquire());
+    t.true(Date.now() - start < 1000, 'without waiting for the requestTimeout');
+    td.verify(consoleError(td.matchers.contains('Could not acquire the quota')));
+  } finally {
+    close();
+    td.reset();
+  }
+});
@@ -0,0 +1,27 @@
+import test from 'ava';
+import { allocateShares } from '../src/quota/shares';
+
+test('shares are split evenly by default', t => {
+  t.deepEqual(allocateShares([{}, {}, {}, {}]), [0.25, 0.25, 0.25, 0.25]);
+});
+
+test('shares are proportional to weight', t => {
+  t.deepEqual(allocateShares([{ weight: 3 }, {}]), [0.75, 0.25]);
+  t.deepEqual(allocateShares([{ weight: 0 }, { weight: 2 }]), [0, 1]);
+});
+
+test('a maxShare caps a share, and the rest goes to the others', t => {
+  t.deepEqual(allocateShares([{ weight: 8, maxShare: 0.5 }, {}, { weight: 3 }]), [
+    0.5,
+    0.125,
+    0.375
+  ]);
+});
+
+test('a minShare guarantees a share', t => {
+  t.deepEqual(allocateShares([{ weight: 9 }, { minShare: 0.5 }]), [0.5, 0.5]);
+});
+
+test('minimums that don’t fit are scaled down', t => {
+  t.deepEqual(allocateShares([{ minShare: 0.8 }, { minShare: 0.8 }, {}]), [0.5, 0.5, 0]);
+});
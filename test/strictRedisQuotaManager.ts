@@ -0,0 +1,123 @@
+import { pRateLimit, StrictRedisQuotaManager } from '../src';
+import { sleep, uniqueId } from '../src/util';
+
+import { createClient } from 'redis';
+import * as IORedis from 'ioredis';
+import test from 'ava';
+import * as td from 'testdouble';
+
+// the live tests need a real Redis server, because fakeredis doesn’t support EVAL:
+// set REDIS_SERVER (e.g. `REDIS_SERVER=localhost npm test`) to run them
+const REDIS_SERVER = process.env.REDIS_SERVER;
+const REDIS_PORT = 6379;
+const liveTest = REDIS_SERVER ? test.serial : test.skip;
+
+test('scripts are run with ioredis-style eval', async t => {
+  const client = { defineCommand: () => undefined, eval: td.func() };
+  td.when(client.eval(td.matchers.anything()), { ignoreExtraArgs: true }).thenResolve([
+    1,
+    0
+  ]);
+  const qm = new StrictRedisQuotaManager(
+    { interval: 1000, rate: 5 },
+    'test',
+    client as any
+  );
+
+  t.true(await qm.acquire(2));
+  const args = td.explain(client.eval).calls[0].args;
+  t.is(args[1], 3, 'number of keys');
+  t.deepEqual(args.slice(2, 5), [
+    'ratelimit:{test}:leases',
+    'ratelimit:{test}:window:0',
+    'ratelimit:{test}:window:0:total'
+  ]);
+  t.deepEqual(args.slice(6), ['2', '1', '-1', '30000', '1000', '5']);
+});
+
+test('scripts are run with redis v4-style eval', async t => {
+  const client = { eval: td.func() };
+  td.when(client.eval(td.matchers.anything(), td.matchers.anything())).thenResolve([
+    1,
+    0
+  ]);
+  const qm = new StrictRedisQuotaManager({ concurrency: 2 }, 'test', client as any);
+
+  t.true(await qm.acquire());
+  t.is(qm.activeCount, 1);
+  const options = td.explain(client.eval).calls[0].args[1];
+  t.deepEqual(options.keys, ['ratelimit:{test}:leases']);
+  t.deepEqual(options.arguments.slice(1), ['1', '1', '2', '30000']);
+});
+
+test('the rate limiter waits as long as Redis says', async t => {
+  const client = { eval: td.func() };
+  td.when(client.eval(td.matchers.anything(), td.matchers.anything())).thenResolve(
+    [0, 200],
+    [1, 0]
+  );
+  const quota = { interval: 1000, rate: 1 };
+  const qm = new StrictRedisQuotaManager(quota, 'test', client as any);
+  const rateLimit = pRateLimit(qm);
+
+  const start = Date.now();
+  await rateLimit(async () => undefined);
+  t.true(Date.now() - start >= 200);
+  t.is(td.explain(client.eval).callCount, 2);
+});
+
+test('start() is not supported', t => {
+  const qm = new StrictRedisQuotaManager({ concurrency: 1 }, 'test', {} as any);
+  t.throws(() => qm.start(), { message: /acquire/ });
+});
+
+liveTest('the rate limit is shared across servers (ioredis)', async t => {
+  const name = uniqueId();
+  const quota = { interval: 500, rate: 4 };
+  const clients = [1, 2].map(() => new IORedis(REDIS_PORT, REDIS_SERVER));
+  const limits = clients.map(c =>
+    pRateLimit(new StrictRedisQuotaManager(quota, name, c))
+  );
+
+  try {
+    const start = Date.now();
+    const times: number[] = [];
+    const calls = [];
+    for (let i = 0; i < 12; i++) {
+      calls.push(limits[i % 2](async () => times.push(Date.now() - start)));
+    }
+    await Promise.all(calls);
+
+    t.is(times.filter(time => time < 450).length, 4);
+    t.is(times.filter(time => time < 950).length, 8);
+  } finally {
+    clients.forEach(c => c.disconnect());
+  }
+});
+
+liveTest('concurrency is shared across servers (redis v4)', async t => {
+  const name = uniqueId();
+  const quota = { concurrency: 2 };
+  const clients = [1, 2].map(() =>
+    createClient({ socket: { host: REDIS_SERVER, port: REDIS_PORT } })
+  );
+  await Promise.all(clients.map(c => c.connect()));
+  const limits = clients.map(c =>
+    pRateLimit(new StrictRedisQuotaManager(quota, name, c))
+  );
+
+  try {
+    let active = 0;
+    let maxActive = 0;
+    const api = async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await sleep(100);
+      active--;
+    };
+
+    await Promise.all([1, 2, 3, 4, 5, 6].map(i => limits[i % 2](api)));
+    t.is(maxActive, 2);
+  } finally {
+    await Promise.all(clients.map(c => c.quit()));
+  }
+});
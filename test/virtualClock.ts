@@ -0,0 +1,73 @@
+import {
+  DistributedQuotaManager,
+  InMemoryTransport,
+  pRateLimit,
+  RateLimitTimeoutError,
+  VirtualClock
+} from '../src';
+import { uniqueId } from '../src/util';
+
+import test from 'ava';
+
+test('timers run in order as the clock advances', async t => {
+  const clock = new VirtualClock(1000);
+  const runs: string[] = [];
+  clock.setTimeout(() => runs.push(`b@${clock.now()}`), 20);
+  clock.setTimeout(() => runs.push(`a@${clock.now()}`), 10);
+  clock.setTimeout(() => runs.push(`c@${clock.now()}`), 20);
+  const interval = clock.setInterval(() => runs.push(`i@${clock.now()}`), 15);
+  const cleared = clock.setTimeout(() => runs.push('cleared'), 5);
+  clock.clearTimeout(cleared);
+
+  await clock.advance(30);
+  t.deepEqual(runs, ['a@1010', 'i@1015', 'b@1020', 'c@1020', 'i@1030']);
+  t.is(clock.now(), 1030);
+
+  clock.clearInterval(interval);
+  t.is(clock.pendingTimers, 0);
+});
+
+test('queued calls are admitted deterministically', async t => {
+  const clock = new VirtualClock();
+  const limit = pRateLimit({ interval: 1000, rate: 2 }, { clock });
+  const starts: string[] = [];
+  const calls = [1, 2, 3, 4, 5].map(i =>
+    limit(async () => starts.push(`${i}@${clock.now()}`))
+  );
+
+  await clock.advance(0);
+  t.deepEqual(starts, ['1@0', '2@0']);
+  await clock.advance(1000);
+  t.deepEqual(starts, ['1@0', '2@0'], 'the window is still full');
+  await clock.advance(1);
+  await clock.advance(1001);
+  await Promise.all(calls);
+  t.deepEqual(starts, ['1@0', '2@0', '3@1001', '4@1001', '5@2002']);
+});
+
+test('maxDelay follows the virtual clock', async t => {
+  const clock = new VirtualClock();
+  const limit = pRateLimit({ interval: 1000, rate: 1, maxDelay: 500 }, { clock });
+
+  const first = limit(async () => 'first');
+  const second = limit(async () => 'second');
+  await clock.advance(500);
+
+  t.is(await first, 'first');
+  await t.throwsAsync(second, { instanceOf: RateLimitTimeoutError });
+});
+
+test('distributed quota managers can be tested without waiting', async t => {
+  const clock = new VirtualClock();
+  const quota = { interval: 1000, rate: 10 };
+  const channelName = uniqueId();
+  const [qm1, qm2] = [1, 2].map(() => {
+    const transport = new InMemoryTransport(channelName);
+    return new DistributedQuotaManager(quota, transport, { clock });
+  });
+
+  await clock.advance(3000);
+  t.true(qm1.ready && qm2.ready);
+  t.is(qm1.quota.rate, 5);
+  t.is(qm2.quota.rate, 5);
+});